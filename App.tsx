@@ -6,13 +6,44 @@
 
 import ContentContainer from '@/components/ContentContainer';
 import ExampleGallery from '@/components/ExampleGallery';
+import GenerationSettingsDialog from '@/components/GenerationSettings';
+import LibraryGallery from '@/components/LibraryGallery';
+import PromptSettings from '@/components/PromptSettings';
+import TranscriptInput from '@/components/TranscriptInput';
+import UsageSummary from '@/components/UsageSummary';
+import VideoPlayer from '@/components/VideoPlayer';
 import {DataContext} from '@/context';
-import {Example} from '@/lib/types';
 import {
-  getYoutubeEmbedUrl,
-  getYouTubeVideoTitle,
-  validateYoutubeUrl,
-} from '@/lib/youtube';
+  createAppBundle,
+  downloadFile,
+  getFileName,
+  parseAppBundle,
+} from '@/lib/bundle';
+import {PipelineStage, getGenerationSettings} from '@/lib/generationSettings';
+import {TokenUsage} from '@/lib/providers/types';
+import {getSelectedPromptTemplate} from '@/lib/promptTemplates';
+import {LOCALES, useTranslation} from '@/lib/i18n';
+import {createShareLink, loadSharedState} from '@/lib/share';
+import {
+  formatTimestamp,
+  isValidSegment,
+  parseTimestamp,
+} from '@/lib/timestamps';
+import {Transcript, createTranscriptUrl} from '@/lib/transcripts';
+import {
+  AppContent,
+  Example,
+  SavedApp,
+  UsageEntry,
+  VideoSegment,
+} from '@/lib/types';
+import {addUsage} from '@/lib/usage';
+import {
+  VIDEO_FILE_TYPES,
+  getVideoSource,
+  uploadVideoFile,
+  validateVideoUrl,
+} from '@/lib/videoSources';
 import {useContext, useEffect, useRef, useState} from 'react';
 
 // Whether to validate the input URL before attempting to generate content
@@ -21,17 +52,26 @@ const VALIDATE_INPUT_URL = true;
 // Whether to pre-seed with example content
 const PRESEED_CONTENT = false;
 
-// Helper function to load a shared state by ID
 export default function App() {
-  const {defaultExample, examples, setExamples, isLoading} =
+  const {defaultExample, examples, setExamples, isLoading, savedApps, saveApp} =
     useContext(DataContext);
+  const {t, locale, setLocale} = useTranslation();
 
   const [videoUrl, setVideoUrl] = useState(
     PRESEED_CONTENT ? defaultExample?.url : '',
   );
 
   const [urlValidating, setUrlValidating] = useState(false); // State to track URL validation
+  const [videoUploading, setVideoUploading] = useState(false); // State to track video file uploads
   const [contentLoading, setContentLoading] = useState(false); // State to track content loading
+  const [showPromptSettings, setShowPromptSettings] = useState(false);
+  const [showGenerationSettings, setShowGenerationSettings] = useState(false);
+  const [showTranscriptInput, setShowTranscriptInput] = useState(false);
+  // The tokens used by every request since the page was loaded
+  const [sessionUsage, setSessionUsage] = useState<UsageEntry[]>([]);
+  const [segmentStart, setSegmentStart] = useState(''); // Start time input
+  const [segmentEnd, setSegmentEnd] = useState(''); // End time input
+  const [videoSegment, setVideoSegment] = useState<VideoSegment>({}); // Part of the video the app is about
 
   // Reference to ContentContainer component for accessing its state
   const contentContainerRef = useRef<{
@@ -42,9 +82,25 @@ export default function App() {
   // Counter to force ContentContainer re-mount even if the video URL hasn't changed
   const [reloadCounter, setReloadCounter] = useState(0);
   const inputRef = useRef<HTMLInputElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const uploadInputRef = useRef<HTMLInputElement>(null);
   const [selectedExample, setSelectedExample] = useState<Example | null>(
     PRESEED_CONTENT ? defaultExample : null,
   );
+  // ID under which the current app is saved in the library
+  const [activeAppId, setActiveAppId] = useState<string | null>(null);
+
+  // Open the shared app if the page was loaded from a share link
+  useEffect(() => {
+    loadSharedState(window.location.hash)
+      .then((sharedApp) => {
+        if (!sharedApp) return;
+        // Drop the fragment so a reload doesn't reopen the shared app
+        history.replaceState(null, '', window.location.pathname);
+        handleExampleSelect(sharedApp);
+      })
+      .catch((error) => alert(error.message));
+  }, []);
 
   // Handle 'Enter' key press in the input field
   const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
@@ -53,15 +109,75 @@ export default function App() {
     }
   };
 
-  const handleExampleSelect = (example: Example) => {
+  // Show a segment in the start/end time inputs
+  const showSegment = ({start, end}: VideoSegment) => {
+    setSegmentStart(start !== undefined ? formatTimestamp(start) : '');
+    setSegmentEnd(end !== undefined ? formatTimestamp(end) : '');
+  };
+
+  // Read the segment entered in the start/end time inputs, or an error
+  // message if the times are invalid
+  const getEnteredSegment = (): VideoSegment | string => {
+    const start = segmentStart.trim()
+      ? parseTimestamp(segmentStart)
+      : undefined;
+    const end = segmentEnd.trim() ? parseTimestamp(segmentEnd) : undefined;
+    if (start === null || end === null) {
+      return t('input.invalidTimes');
+    }
+    if (!isValidSegment({start, end})) {
+      return t('input.invalidSegment');
+    }
+    return {start, end};
+  };
+
+  // Open an example, cued to the segment its URL points to unless another
+  // segment is given
+  const handleExampleSelect = (example: Example, segment?: VideoSegment) => {
     if (inputRef.current) {
       inputRef.current.value = example.url;
     }
+    const exampleSegment =
+      segment ?? getVideoSource(example.url)?.getSegment(example.url) ?? {};
+    showSegment(exampleSegment);
+    setVideoSegment(exampleSegment);
     setVideoUrl(example.url);
     setSelectedExample(example);
+    setActiveAppId(null);
     setReloadCounter((c) => c + 1);
   };
 
+  const handleSavedAppSelect = (app: SavedApp) => {
+    handleExampleSelect(app, app.metadata?.videoSegment);
+    setActiveAppId(app.id);
+  };
+
+  // Save each new revision of the app to the library, under a new ID unless
+  // the app is already saved
+  const handleContentChange = async (content: AppContent) => {
+    const id = activeAppId ?? crypto.randomUUID();
+    setActiveAppId(id);
+
+    // Only untitled transcripts have no title
+    const title =
+      selectedExample?.title ||
+      (await (
+        getVideoSource(videoUrl)?.getTitle(videoUrl) ??
+        Promise.resolve(videoUrl)
+      ).catch(() => videoUrl)) ||
+      t('transcript.defaultTitle');
+
+    saveApp({id, title, url: videoUrl, ...content}).catch((error) =>
+      console.error('Failed to save app to library:', error),
+    );
+  };
+
+  const handleUsage = (
+    stage: PipelineStage,
+    modelName: string,
+    usage: TokenUsage,
+  ) => setSessionUsage((prev) => addUsage(prev, stage, modelName, usage));
+
   const handleSubmit = async () => {
     const inputValue = inputRef.current?.value.trim() || '';
 
@@ -73,10 +189,17 @@ export default function App() {
     // Prevent multiple clicks while validating
     if (urlValidating) return;
 
+    const segment = getEnteredSegment();
+    if (typeof segment === 'string') {
+      alert(segment);
+      return;
+    }
+
     setUrlValidating(true);
     setVideoUrl(''); // Clear previous video URL immediately
     setContentLoading(false); // Reset content loading state
     setSelectedExample(null); // Clear the selected example to force new generation
+    setActiveAppId(null);
 
     // Check if the URL matches any of our examples
     const isPreSeededExample = [defaultExample, ...examples].some(
@@ -85,80 +208,319 @@ export default function App() {
 
     // No need to validate the URL if it's a pre-seeded example
     if (isPreSeededExample) {
-      proceedWithVideo(inputValue);
+      proceedWithVideo(inputValue, segment);
       return;
     }
 
     if (VALIDATE_INPUT_URL) {
       // Validate video URL
-      const validationResult = await validateYoutubeUrl(inputValue);
+      const validationResult = await validateVideoUrl(inputValue);
 
       if (validationResult.isValid) {
-        proceedWithVideo(inputValue);
+        proceedWithVideo(inputValue, segment);
       } else {
-        alert(validationResult.error || 'Invalid YouTube URL');
+        alert(
+          validationResult.error
+            ? t(`validation.${validationResult.error}`, {
+                types: VIDEO_FILE_TYPES.join(', '),
+              })
+            : t('input.invalidUrl'),
+        );
         setUrlValidating(false);
       }
     } else {
       // If URL validation is disabled, proceed directly
-      proceedWithVideo(inputValue);
+      proceedWithVideo(inputValue, segment);
+    }
+  };
+
+  // Upload a video file from the user's device and generate an app from it
+  const handleVideoUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow the same file to be uploaded again
+    if (!file || urlValidating) return;
+
+    const segment = getEnteredSegment();
+    if (typeof segment === 'string') {
+      alert(segment);
+      return;
+    }
+
+    setUrlValidating(true);
+    setVideoUploading(true);
+    setVideoUrl('');
+    setContentLoading(false);
+    setSelectedExample(null);
+    setActiveAppId(null);
+
+    try {
+      const uri = await uploadVideoFile(file);
+      if (inputRef.current) {
+        inputRef.current.value = uri;
+      }
+      proceedWithVideo(uri, segment);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : t('input.uploadFailed'));
+      setUrlValidating(false);
+    } finally {
+      setVideoUploading(false);
     }
   };
 
+  // Generate an app from a pasted transcript or a subtitle file
+  const handleTranscriptSubmit = (transcript: Transcript) => {
+    const segment = getEnteredSegment();
+    if (typeof segment === 'string') {
+      alert(segment);
+      return;
+    }
+
+    const url = createTranscriptUrl(transcript);
+    if (inputRef.current) {
+      inputRef.current.value = url;
+    }
+    setShowTranscriptInput(false);
+    setSelectedExample(null);
+    proceedWithVideo(url, segment);
+  };
+
   // Helper function to handle common operations after URL validation
-  const proceedWithVideo = (url: string) => {
+  const proceedWithVideo = (url: string, segment: VideoSegment) => {
     setVideoUrl(url);
+    setVideoSegment(segment);
+    setActiveAppId(crypto.randomUUID()); // Save the result as a new app
     // Incrementing the counter changes the 'key' prop on ContentContainer,
     // forcing it to re-mount and re-generate content
     setReloadCounter((c) => c + 1);
     setUrlValidating(false);
   };
 
+  // Gather the current app's content and metadata for exporting
+  const getCurrentApp = () => {
+    const code = contentContainerRef.current?.getCode();
+    const spec = contentContainerRef.current?.getSpec();
+    if (!code || !spec) {
+      alert(t('actions.nothingToExport'));
+      return null;
+    }
+
+    const savedApp = savedApps.find((app) => app.id === activeAppId);
+    return {
+      title: savedApp?.title || selectedExample?.title || t('app.defaultTitle'),
+      url: videoUrl,
+      spec,
+      code,
+      metadata: savedApp?.metadata,
+      revisions: savedApp?.revisions,
+      chat: savedApp?.chat,
+      usage: savedApp?.usage,
+      quiz: savedApp?.quiz,
+    };
+  };
+
+  const handleShare = async () => {
+    const app = getCurrentApp();
+    if (!app) return;
+
+    try {
+      const link = await createShareLink({
+        title: app.title,
+        url: app.url,
+        spec: app.spec,
+        code: app.code,
+      });
+      await navigator.clipboard
+        .writeText(link)
+        .then(() => alert(t('actions.shareCopied')))
+        .catch(() => prompt(t('actions.shareCopyPrompt'), link));
+    } catch (error) {
+      alert(error instanceof Error ? error.message : t('actions.shareFailed'));
+    }
+  };
+
+  const handleDownloadHTML = () => {
+    const app = getCurrentApp();
+    if (app) {
+      downloadFile(getFileName(app.title, 'html'), app.code, 'text/html');
+    }
+  };
+
+  const handleExportBundle = () => {
+    const app = getCurrentApp();
+    if (app) {
+      downloadFile(
+        getFileName(app.title, 'json'),
+        createAppBundle(app),
+        'application/json',
+      );
+    }
+  };
+
+  // Add an imported bundle to the library and open it
+  const handleImportBundle = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow the same file to be imported again
+    if (!file) return;
+
+    try {
+      const bundledApp = parseAppBundle(await file.text());
+      const app = {id: crypto.randomUUID(), ...bundledApp};
+      await saveApp(app);
+
+      if (inputRef.current) {
+        inputRef.current.value = app.url;
+      }
+      showSegment(app.metadata?.videoSegment ?? {});
+      setVideoSegment(app.metadata?.videoSegment ?? {});
+      setVideoUrl(app.url);
+      setSelectedExample(app);
+      setActiveAppId(app.id);
+      setReloadCounter((c) => c + 1);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : t('actions.importFailed'));
+    }
+  };
+
   // Callback function to handle loading state changes from ContentContainer
   const handleContentLoadingStateChange = (isLoading: boolean) => {
     setContentLoading(isLoading);
   };
 
   const exampleGallery = (
-    <ExampleGallery
-      title={PRESEED_CONTENT ? 'More examples' : 'Examples'}
-      onSelectExample={handleExampleSelect}
-      selectedExample={selectedExample}
-    />
+    <>
+      <LibraryGallery
+        selectedAppId={activeAppId}
+        onSelectApp={handleSavedAppSelect}
+      />
+      <ExampleGallery
+        title={
+          PRESEED_CONTENT ? t('gallery.moreExamples') : t('gallery.examples')
+        }
+        onSelectExample={handleExampleSelect}
+        selectedExample={activeAppId ? null : selectedExample}
+      />
+    </>
   );
 
   return (
     <>
       <main className="main-container">
         <div className="left-side">
-          <h1 className="headline">Video to Learning App</h1>
-          <p className="subtitle">
-            Generate interactive learning apps from YouTube content
-          </p>
+          <h1 className="headline">{t('app.headline')}</h1>
+          <p className="subtitle">{t('app.subtitle')}</p>
           <p className="attribution">
-            An experiment by <strong>Aaron Wade</strong>
+            {t('app.attribution')} <strong>Aaron Wade</strong>
           </p>
+          <label className="locale-select">
+            <span className="settings-icon" title={t('app.interfaceLanguage')}>
+              language
+            </span>
+            <select
+              aria-label={t('app.interfaceLanguage')}
+              value={locale.code}
+              onChange={(e) => setLocale(e.target.value)}>
+              {LOCALES.map(({code, name}) => (
+                <option key={code} value={code} lang={code}>
+                  {name}
+                </option>
+              ))}
+            </select>
+          </label>
           <div className="input-container">
-            <label htmlFor="youtube-url" className="input-label">
-              Paste a URL from YouTube:
+            <label htmlFor="video-url" className="input-label">
+              {t('input.label')}
             </label>
             <input
               ref={inputRef}
-              id="youtube-url"
-              className="youtube-input"
+              id="video-url"
+              className="video-input"
               type="text"
+              dir="ltr"
               placeholder="https://www.youtube.com/watch?v=..."
               defaultValue={PRESEED_CONTENT ? defaultExample?.url : ''}
               disabled={urlValidating || contentLoading} // Disable input while validating or loading
               onKeyDown={handleKeyDown} // Add keydown handler
-              onChange={() => {
+              onChange={(e) => {
                 // Clear all content upon input change
                 setVideoUrl('');
                 setSelectedExample(null);
+                // Fill in the segment from any timestamps in the URL
+                const url = e.target.value.trim();
+                showSegment(getVideoSource(url)?.getSegment(url) ?? {});
               }}
             />
+            <div className="segment-inputs">
+              <label className="segment-label">
+                {t('input.start')}
+                <input
+                  className="segment-input"
+                  type="text"
+                  dir="ltr"
+                  placeholder="0:00"
+                  value={segmentStart}
+                  disabled={urlValidating || contentLoading}
+                  onKeyDown={handleKeyDown}
+                  onChange={(e) => setSegmentStart(e.target.value)}
+                />
+              </label>
+              <label className="segment-label">
+                {t('input.end')}
+                <input
+                  className="segment-input"
+                  type="text"
+                  dir="ltr"
+                  placeholder={t('input.endPlaceholder')}
+                  value={segmentEnd}
+                  disabled={urlValidating || contentLoading}
+                  onKeyDown={handleKeyDown}
+                  onChange={(e) => setSegmentEnd(e.target.value)}
+                />
+              </label>
+            </div>
+            <button
+              onClick={() => uploadInputRef.current?.click()}
+              className="button-secondary upload-button"
+              disabled={urlValidating || contentLoading}>
+              {videoUploading ? t('input.uploading') : t('input.upload')}
+            </button>
+            <input
+              ref={uploadInputRef}
+              type="file"
+              accept="video/*"
+              onChange={handleVideoUpload}
+              hidden
+            />
+            <button
+              onClick={() => setShowTranscriptInput(true)}
+              className="button-secondary upload-button"
+              disabled={urlValidating || contentLoading}>
+              {t('input.transcript')}
+            </button>
           </div>
 
+          <button
+            onClick={() => setShowPromptSettings(true)}
+            className="button-secondary settings-button"
+            disabled={urlValidating || contentLoading}>
+            <span className="settings-icon">tune</span>
+            {t('settings.promptTemplate', {
+              name: getSelectedPromptTemplate().name,
+            })}
+          </button>
+
+          <button
+            onClick={() => setShowGenerationSettings(true)}
+            className="button-secondary settings-button"
+            disabled={urlValidating || contentLoading}>
+            <span className="settings-icon">settings</span>
+            {t('settings.models', {
+              spec: getGenerationSettings().spec.modelName,
+              code: getGenerationSettings().code.modelName,
+            })}
+            {getGenerationSettings().outputLanguage &&
+              ` · ${getGenerationSettings().outputLanguage}`}
+          </button>
+
           <div className="button-container">
             <button
               onClick={handleSubmit}
@@ -166,22 +528,55 @@ export default function App() {
               disabled={urlValidating || contentLoading} // Disable button during validation or content loading
             >
               {urlValidating
-                ? 'Validating URL...'
+                ? t('actions.validating')
                 : contentLoading
-                  ? 'Generating...'
-                  : 'Generate app'}
+                  ? t('actions.generating')
+                  : t('actions.generate')}
             </button>
+            <button
+              onClick={handleShare}
+              className="button-secondary share-button"
+              title={t('actions.share')}
+              disabled={!videoUrl || contentLoading}>
+              share
+            </button>
+          </div>
+
+          <div className="button-container">
+            <button
+              onClick={handleDownloadHTML}
+              className="button-secondary export-button"
+              disabled={!videoUrl || contentLoading}>
+              {t('actions.downloadHtml')}
+            </button>
+            <button
+              onClick={handleExportBundle}
+              className="button-secondary export-button"
+              disabled={!videoUrl || contentLoading}>
+              {t('actions.exportBundle')}
+            </button>
+            <button
+              onClick={() => importInputRef.current?.click()}
+              className="button-secondary export-button"
+              disabled={urlValidating || contentLoading}>
+              {t('actions.importBundle')}
+            </button>
+            <input
+              ref={importInputRef}
+              type="file"
+              accept=".json,application/json"
+              onChange={handleImportBundle}
+              hidden
+            />
           </div>
 
+          <UsageSummary label={t('usage.session')} entries={sessionUsage} />
+
           <div className="video-container">
             {videoUrl ? (
-              <iframe
-                className="video-iframe"
-                src={getYoutubeEmbedUrl(videoUrl)}
-                allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
-                allowFullScreen></iframe>
+              <VideoPlayer url={videoUrl} segment={videoSegment} />
             ) : (
-              <div className="video-placeholder">Video will appear here</div>
+              <div className="video-placeholder">{t('video.placeholder')}</div>
             )}
           </div>
 
@@ -196,7 +591,25 @@ export default function App() {
               <ContentContainer
                 key={reloadCounter}
                 contentBasis={videoUrl}
+                videoSegment={videoSegment}
                 onLoadingStateChange={handleContentLoadingStateChange}
+                initialRevisions={
+                  savedApps.find((app) => app.id === activeAppId)?.revisions
+                }
+                initialChat={
+                  savedApps.find((app) => app.id === activeAppId)?.chat
+                }
+                initialUsage={
+                  savedApps.find((app) => app.id === activeAppId)?.usage
+                }
+                initialQuiz={
+                  savedApps.find((app) => app.id === activeAppId)?.quiz
+                }
+                initialMetadata={
+                  savedApps.find((app) => app.id === activeAppId)?.metadata
+                }
+                onContentChange={handleContentChange}
+                onUsage={handleUsage}
                 preSeededSpec={selectedExample?.spec}
                 preSeededCode={selectedExample?.code}
                 ref={contentContainerRef}
@@ -204,9 +617,11 @@ export default function App() {
             ) : (
               <div className="content-placeholder">
                 <p>
-                  {urlValidating
-                    ? 'Validating URL...'
-                    : 'Paste a YouTube URL or select an example to begin'}
+                  {videoUploading
+                    ? t('input.uploading')
+                    : urlValidating
+                      ? t('actions.validating')
+                      : t('content.placeholder')}
                 </p>
               </div>
             )}
@@ -218,6 +633,23 @@ export default function App() {
         </div>
       </main>
 
+      {showPromptSettings && (
+        <PromptSettings onClose={() => setShowPromptSettings(false)} />
+      )}
+
+      {showTranscriptInput && (
+        <TranscriptInput
+          onSubmit={handleTranscriptSubmit}
+          onClose={() => setShowTranscriptInput(false)}
+        />
+      )}
+
+      {showGenerationSettings && (
+        <GenerationSettingsDialog
+          onClose={() => setShowGenerationSettings(false)}
+        />
+      )}
+
       <style>{`
         .main-container {
           --color-headline: light-dark(#000, #fff);
@@ -324,6 +756,14 @@ export default function App() {
           }
         }
 
+        .locale-select {
+          align-items: center;
+          display: flex;
+          font-size: 0.875rem;
+          gap: 0.25rem;
+          margin-top: -1rem;
+        }
+
         .input-container {
           width: 100%;
         }
@@ -333,7 +773,46 @@ export default function App() {
           margin-bottom: 0.5rem;
         }
 
-        .youtube-input {
+        .video-input {
+          width: 100%;
+        }
+
+        .segment-inputs {
+          display: flex;
+          gap: 0.5rem;
+          margin-top: 0.5rem;
+        }
+
+        .segment-label {
+          align-items: center;
+          display: flex;
+          flex: 1;
+          font-size: 0.875rem;
+          gap: 0.5rem;
+        }
+
+        .segment-input {
+          flex: 1;
+          min-width: 0;
+        }
+
+        .settings-button {
+          align-items: center;
+          display: flex;
+          font-size: 0.875rem;
+          gap: 0.5rem;
+          justify-content: center;
+          width: 100%;
+        }
+
+        .settings-icon {
+          font-family: var(--font-symbols);
+          font-size: 1.25rem;
+        }
+
+        .upload-button {
+          font-size: 0.875rem;
+          margin-top: 0.5rem;
           width: 100%;
         }
 
@@ -347,8 +826,15 @@ export default function App() {
           flex: 1;
         }
 
+        .export-button {
+          flex: 1;
+          font-size: 0.875rem;
+        }
+
         .share-button {
           flex: 0.05;
+          font-family: var(--font-symbols);
+          font-size: 1.25rem;
         }
 
         .video-container {
@@ -371,6 +857,32 @@ export default function App() {
           border-radius: 8px;
         }
 
+        .video-transcript {
+          bottom: 0;
+          color: var(--color-text);
+          font-size: 0.875rem;
+          left: 0;
+          overflow-y: auto;
+          padding: 0.75rem 1rem;
+          position: absolute;
+          right: 0;
+          top: 0;
+          white-space: pre-wrap;
+
+          p {
+            margin: 0 0 0.5rem;
+          }
+
+          span {
+            color: var(--color-video-placeholder-text);
+            font-family: var(--font-technical);
+          }
+
+          .outside {
+            opacity: 0.5;
+          }
+        }
+
         .video-placeholder {
           position: absolute;
           top: 0;
@@ -0,0 +1,76 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {PIPELINE_STAGES, PipelineStage} from '@/lib/generationSettings';
+import {useTranslation} from '@/lib/i18n';
+
+interface CacheNoticeProps {
+  // When the responses served from the generation cache were first
+  // generated, by stage
+  cacheHits: Partial<Record<PipelineStage, string>>;
+  // Ask the model again instead of using the cached responses
+  onRegenerate: () => void;
+  disabled?: boolean;
+}
+
+// Label content that was served from the generation cache
+export default function CacheNotice({
+  cacheHits,
+  onRegenerate,
+  disabled,
+}: CacheNoticeProps) {
+  const {t, locale} = useTranslation();
+
+  const stages = PIPELINE_STAGES.filter((stage) => cacheHits[stage]);
+  if (stages.length === 0) return null;
+
+  return (
+    <div className="cache-notice">
+      <span className="cache-notice-icon">cached</span>
+      {t('cache.notice', {
+        stages: stages
+          .map((stage) => t(`stages.${stage}`))
+          .reduce((first, second) => t('common.and', {first, second})),
+        date: new Date(cacheHits[stages[0]]!).toLocaleString(locale.code),
+      })}
+      <button
+        className="cache-notice-action"
+        disabled={disabled}
+        onClick={onRegenerate}>
+        {t('cache.regenerate')}
+      </button>
+
+      <style>{`
+        .cache-notice {
+          align-items: center;
+          background: light-dark(#e8f0fe, #1c3a5e);
+          border-bottom: 1px solid light-dark(#ddd, #7a7a7a);
+          color: light-dark(#1a4a8a, #c2dbff);
+          display: flex;
+          flex-wrap: wrap;
+          font-size: 12px;
+          gap: 6px;
+          padding: 6px 12px;
+        }
+
+        .cache-notice-icon {
+          font-family: var(--font-symbols);
+          font-size: 16px;
+        }
+
+        .cache-notice-action {
+          background: none;
+          border: 1px solid currentColor;
+          border-radius: 12px;
+          color: inherit;
+          cursor: pointer;
+          font-size: 12px;
+          padding: 2px 10px;
+        }
+      `}</style>
+    </div>
+  );
+}
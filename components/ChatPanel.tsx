@@ -0,0 +1,215 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {useTranslation} from '@/lib/i18n';
+import {ChatMessage} from '@/lib/types';
+import {ReactNode, useEffect, useRef, useState} from 'react';
+
+interface ChatPanelProps {
+  messages: ChatMessage[];
+  onSend: (instruction: string) => void;
+  // Whether a refinement is in progress
+  isBusy: boolean;
+  // Shown while a refinement is in progress, e.g. how much has arrived
+  progress?: ReactNode;
+  disabled?: boolean;
+}
+
+// Conversation for refining the current app with instructions to the model
+export default function ChatPanel({
+  messages,
+  onSend,
+  isBusy,
+  progress,
+  disabled,
+}: ChatPanelProps) {
+  const {t} = useTranslation();
+  const [draft, setDraft] = useState('');
+  const [isCollapsed, setIsCollapsed] = useState(false);
+  const listRef = useRef<HTMLOListElement>(null);
+
+  // Keep the latest message in view
+  useEffect(() => {
+    listRef.current?.scrollTo({top: listRef.current.scrollHeight});
+  }, [messages, isBusy, isCollapsed]);
+
+  const handleSend = () => {
+    const instruction = draft.trim();
+    if (!instruction || isBusy || disabled) return;
+    onSend(instruction);
+    setDraft('');
+  };
+
+  // Send on Enter, and allow new lines with Shift+Enter
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      handleSend();
+    }
+  };
+
+  return (
+    <div className={`chat-panel ${isCollapsed ? 'collapsed' : ''}`}>
+      <button
+        className="chat-panel-toggle"
+        onClick={() => setIsCollapsed((collapsed) => !collapsed)}
+        title={isCollapsed ? t('chat.show') : t('chat.hide')}>
+        <span className="chat-panel-icon">
+          {isCollapsed ? 'chat' : 'right_panel_close'}
+        </span>
+        {!isCollapsed && t('chat.title')}
+      </button>
+
+      {!isCollapsed && (
+        <>
+          <ol className="chat-messages" ref={listRef}>
+            {messages.length === 0 && (
+              <li className="chat-empty">{t('chat.empty')}</li>
+            )}
+            {messages.map((message) => (
+              <li
+                key={message.id}
+                className={`chat-message ${message.role} ${
+                  message.isError ? 'error' : ''
+                }`}>
+                {message.text}
+              </li>
+            ))}
+            {isBusy && (
+              <li className="chat-message model pending">
+                {t('chat.updating')}
+                {progress}
+              </li>
+            )}
+          </ol>
+          <div className="chat-input-container">
+            <textarea
+              className="chat-input"
+              placeholder={t('chat.placeholder')}
+              rows={3}
+              value={draft}
+              disabled={disabled}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={handleKeyDown}
+            />
+            <button
+              className="button-primary"
+              disabled={!draft.trim() || isBusy || disabled}
+              onClick={handleSend}>
+              {t('chat.send')}
+            </button>
+          </div>
+        </>
+      )}
+
+      <style>{`
+        .chat-panel {
+          border-inline-start: 1px solid light-dark(#ddd, #7a7a7a);
+          box-sizing: border-box;
+          display: flex;
+          flex-direction: column;
+          flex-shrink: 0;
+          width: 300px;
+
+          @media (max-width: 768px) {
+            border-inline-start: none;
+            border-top: 1px solid light-dark(#ddd, #7a7a7a);
+            max-height: 45%;
+            width: 100%;
+          }
+        }
+
+        .chat-panel.collapsed {
+          width: auto;
+        }
+
+        .chat-panel-toggle {
+          align-items: center;
+          background: none;
+          border: none;
+          border-bottom: 1px solid light-dark(#ddd, #7a7a7a);
+          color: inherit;
+          cursor: pointer;
+          display: flex;
+          font-size: 0.875rem;
+          font-weight: bold;
+          gap: 0.5rem;
+          padding: 0.5rem;
+        }
+
+        .chat-panel.collapsed .chat-panel-toggle {
+          border-bottom: none;
+        }
+
+        .chat-panel-icon {
+          font-family: var(--font-symbols);
+          font-size: 1.25rem;
+          font-weight: normal;
+        }
+
+        .chat-messages {
+          display: flex;
+          flex: 1;
+          flex-direction: column;
+          gap: 0.5rem;
+          list-style: none;
+          margin: 0;
+          overflow-y: auto;
+          padding: 0.5rem;
+        }
+
+        .chat-empty {
+          color: light-dark(#787878, #c8c8c8);
+          font-size: 0.875rem;
+          padding: 0.5rem;
+        }
+
+        .chat-message {
+          border-radius: 8px;
+          font-size: 0.875rem;
+          max-width: 85%;
+          padding: 0.5rem 0.75rem;
+          white-space: pre-wrap;
+        }
+
+        .chat-message.user {
+          align-self: flex-end;
+          background-color: var(--color-accent);
+          color: #fff;
+        }
+
+        .chat-message.model {
+          align-self: flex-start;
+          background-color: light-dark(#f0f0f0, #3a3a3a);
+        }
+
+        .chat-message.error {
+          color: var(--color-error);
+        }
+
+        .chat-message.pending {
+          display: flex;
+          flex-direction: column;
+          gap: 0.25rem;
+        }
+
+        .chat-input-container {
+          display: flex;
+          flex-direction: column;
+          gap: 0.5rem;
+          padding: 0.5rem;
+        }
+
+        .chat-input {
+          box-sizing: border-box;
+          font-family: inherit;
+          resize: vertical;
+          width: 100%;
+        }
+      `}</style>
+    </div>
+  );
+}
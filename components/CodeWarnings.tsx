@@ -0,0 +1,127 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {useTranslation} from '@/lib/i18n';
+import {HTMLDiagnostic} from '@/lib/parse';
+import {PolicyViolation, checkPolicies} from '@/lib/policy';
+import {useMemo} from 'react';
+
+interface CodeWarningsProps {
+  code: string;
+  // Problems found while extracting the code from the response
+  diagnostics: HTMLDiagnostic[];
+  // How many errors the app has logged while running
+  runtimeErrorCount: number;
+  onShowConsole: () => void;
+  // Generate the code again, asking for these rules to be followed
+  onRegenerateWithViolations: (violations: PolicyViolation[]) => void;
+  disabled?: boolean;
+}
+
+// Badges for problems found while extracting, checking or running the
+// generated code
+export default function CodeWarnings({
+  code,
+  diagnostics,
+  runtimeErrorCount,
+  onShowConsole,
+  onRegenerateWithViolations,
+  disabled,
+}: CodeWarningsProps) {
+  const {t} = useTranslation();
+  const violations = useMemo(() => checkPolicies(code), [code]);
+
+  if (
+    diagnostics.length === 0 &&
+    violations.length === 0 &&
+    runtimeErrorCount === 0
+  ) {
+    return null;
+  }
+
+  return (
+    <div className="warning-bar">
+      {runtimeErrorCount > 0 && (
+        <button
+          className="warning-badge error-badge"
+          title={t('warnings.showConsole')}
+          onClick={onShowConsole}>
+          <span className="warning-icon">error</span>
+          {t('warnings.runtimeErrors', {count: runtimeErrorCount})}
+        </button>
+      )}
+      {diagnostics.map((warning) => (
+        <span
+          key={warning.message}
+          className="warning-badge"
+          title={warning.message}>
+          <span className="warning-icon">warning</span>
+          {warning.message}
+        </span>
+      ))}
+      {violations.map((violation) => (
+        <span
+          key={violation.message}
+          className="warning-badge"
+          title={violation.message}>
+          <span className="warning-icon">policy</span>
+          {violation.message}
+        </span>
+      ))}
+      {violations.length > 0 && (
+        <button
+          className="warning-action"
+          disabled={disabled}
+          onClick={() => onRegenerateWithViolations(violations)}>
+          {t('warnings.regenerateFixing', {count: violations.length})}
+        </button>
+      )}
+
+      <style>{`
+        .warning-bar {
+          border-bottom: 1px solid light-dark(#ddd, #7a7a7a);
+          display: flex;
+          flex-wrap: wrap;
+          gap: 6px;
+          padding: 6px 12px;
+        }
+
+        .warning-badge {
+          align-items: center;
+          background: light-dark(#fef7e0, #4a3c0b);
+          border-radius: 12px;
+          color: light-dark(#7a5b00, #fde293);
+          display: inline-flex;
+          font-size: 12px;
+          gap: 4px;
+          padding: 2px 10px 2px 6px;
+        }
+
+        .warning-action {
+          background: none;
+          border: 1px solid currentColor;
+          border-radius: 12px;
+          color: inherit;
+          cursor: pointer;
+          font-size: 12px;
+          padding: 2px 10px;
+        }
+
+        .error-badge {
+          background: light-dark(#fce8e6, #5c1a14);
+          border: none;
+          color: var(--color-error);
+          cursor: pointer;
+        }
+
+        .warning-icon {
+          font-family: var(--font-symbols);
+          font-size: 16px;
+        }
+      `}</style>
+    </div>
+  );
+}
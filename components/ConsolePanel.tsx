@@ -0,0 +1,201 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {useTranslation} from '@/lib/i18n';
+import {
+  ConsoleEntry,
+  isErrorEntry,
+  parseBridgeMessage,
+} from '@/lib/previewBridge';
+import {useEffect, useRef, useState} from 'react';
+
+interface ConsolePanelProps {
+  entries: ConsoleEntry[];
+  onClear: () => void;
+  // Ask the model to fix the errors that were logged
+  onFixErrors: () => void;
+  disabled?: boolean;
+}
+
+// How many console entries to keep from the app in the preview
+const MAX_CONSOLE_ENTRIES = 500;
+
+// What the app in a preview iframe logs through the injected bridge. The
+// entries are cleared when the code changes, since they came from the
+// previous code.
+export function useConsoleEntries(code: string) {
+  const [entries, setEntries] = useState<ConsoleEntry[]>([]);
+  const iframeRef = useRef<HTMLIFrameElement>(null);
+
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      if (event.source !== iframeRef.current?.contentWindow) return;
+      const entry = parseBridgeMessage(event.data);
+      if (entry) {
+        setEntries((prev) => [...prev, entry].slice(-MAX_CONSOLE_ENTRIES));
+      }
+    };
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, []);
+
+  useEffect(() => setEntries([]), [code]);
+
+  const clear = () => setEntries([]);
+
+  return {entries, clear, iframeRef};
+}
+
+const LEVEL_ICONS: Record<ConsoleEntry['level'], string> = {
+  log: 'chevron_right',
+  info: 'info',
+  warn: 'warning',
+  error: 'error',
+  debug: 'bug_report',
+};
+
+// Everything the app in the preview has logged, including uncaught errors
+export default function ConsolePanel({
+  entries,
+  onClear,
+  onFixErrors,
+  disabled,
+}: ConsolePanelProps) {
+  const {t, locale} = useTranslation();
+  const errorCount = entries.filter(isErrorEntry).length;
+
+  return (
+    <div className="console">
+      <div className="console-toolbar">
+        <span>
+          {t('console.errors', {count: errorCount})} &middot;{' '}
+          {t('console.messages', {count: entries.length})}
+        </span>
+        <div className="console-actions">
+          <button
+            className="button-secondary"
+            disabled={entries.length === 0}
+            onClick={onClear}>
+            {t('console.clear')}
+          </button>
+          <button
+            className="button-primary"
+            disabled={errorCount === 0 || disabled}
+            onClick={onFixErrors}>
+            {t('console.fixErrors')}
+          </button>
+        </div>
+      </div>
+
+      {entries.length === 0 ? (
+        <div className="console-empty">{t('console.empty')}</div>
+      ) : (
+        <ol className="console-entries">
+          {entries.map((entry) => (
+            <li key={entry.id} className={`console-entry ${entry.level}`}>
+              <span className="console-entry-icon">
+                {LEVEL_ICONS[entry.level]}
+              </span>
+              <div className="console-entry-text">
+                {entry.message}
+                {entry.stack && (
+                  <pre className="console-entry-stack">{entry.stack}</pre>
+                )}
+              </div>
+              <span className="console-entry-time">
+                {new Date(entry.timestamp).toLocaleTimeString(locale.code)}
+              </span>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <style>{`
+        .console {
+          display: flex;
+          flex-direction: column;
+          height: 100%;
+        }
+
+        .console-toolbar {
+          align-items: center;
+          border-bottom: 1px solid light-dark(#ddd, #7a7a7a);
+          display: flex;
+          font-size: 0.875rem;
+          gap: 0.5rem;
+          justify-content: space-between;
+          padding: 0.5rem 1rem;
+        }
+
+        .console-actions {
+          display: flex;
+          gap: 6px;
+        }
+
+        .console-empty {
+          align-items: center;
+          color: light-dark(#787878, #c8c8c8);
+          display: flex;
+          flex: 1;
+          justify-content: center;
+          padding: 0 2rem;
+          text-align: center;
+        }
+
+        .console-entries {
+          flex: 1;
+          font-family: var(--font-technical);
+          font-size: 0.8125rem;
+          list-style: none;
+          margin: 0;
+          overflow-y: auto;
+          padding: 0;
+        }
+
+        .console-entry {
+          align-items: flex-start;
+          border-bottom: 1px solid light-dark(#eee, #4a4a4a);
+          display: flex;
+          gap: 0.5rem;
+          padding: 0.25rem 1rem;
+        }
+
+        .console-entry.warn {
+          background-color: light-dark(#fff8e1, #3d3520);
+        }
+
+        .console-entry.error {
+          background-color: light-dark(#fdecea, #3d2220);
+          color: var(--color-error);
+        }
+
+        .console-entry-icon {
+          font-family: var(--font-symbols);
+          font-size: 1rem;
+        }
+
+        .console-entry-text {
+          flex: 1;
+          min-width: 0;
+          overflow-wrap: anywhere;
+          white-space: pre-wrap;
+        }
+
+        .console-entry-stack {
+          font-size: 0.75rem;
+          margin: 0.25rem 0 0;
+          opacity: 0.8;
+          white-space: pre-wrap;
+        }
+
+        .console-entry-time {
+          color: light-dark(#787878, #c8c8c8);
+          font-size: 0.75rem;
+        }
+      `}</style>
+    </div>
+  );
+}
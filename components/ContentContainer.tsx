@@ -9,40 +9,168 @@ import React, {
   forwardRef,
   useEffect,
   useImperativeHandle,
+  useRef,
   useState,
 } from 'react';
 import {Tab, TabList, TabPanel, Tabs} from 'react-tabs';
 
 // import 'react-tabs/style/react-tabs.css'
 
-import {parseHTML, parseJSON} from '@/lib/parse';
+import CacheNotice from '@/components/CacheNotice';
+import ChatPanel from '@/components/ChatPanel';
+import CodeWarnings from '@/components/CodeWarnings';
+import ConsolePanel, {useConsoleEntries} from '@/components/ConsolePanel';
+import EvaluationPanel, {useEvaluation} from '@/components/EvaluationPanel';
+import QuizPanel, {useQuiz} from '@/components/QuizPanel';
+import RevisionHistory, {RestorePart} from '@/components/RevisionHistory';
+import SpecPanel from '@/components/SpecPanel';
+import UsageSummary from '@/components/UsageSummary';
+import VariantGrid, {Variant, useVariants} from '@/components/VariantGrid';
+import {SpecItemEvaluation} from '@/lib/evaluation';
+import {CacheMode, CachedGeneration} from '@/lib/generationCache';
+import {
+  PipelineStage,
+  getGenerationSettings,
+  getStageOptions,
+} from '@/lib/generationSettings';
+import {
+  HTMLDiagnostic,
+  parseHTML,
+  parsePartialHTML,
+  parsePartialJSONString,
+} from '@/lib/parse';
 import {
   CODE_REGION_CLOSER,
   CODE_REGION_OPENER,
-  SPEC_ADDENDUM,
-  SPEC_FROM_VIDEO_PROMPT,
+  getFixErrorsInstruction,
+  getPolicyViolationsAddendum,
+  getRefinementPrompt,
+  getSpecGapsAddendum,
 } from '@/lib/prompts';
-import {generateText} from '@/lib/textGeneration';
+import {
+  generateCode,
+  generateSpec,
+  getGenerationMetadata,
+} from '@/lib/pipeline';
+import {useTranslation} from '@/lib/i18n';
+import {PolicyViolation} from '@/lib/policy';
+import {
+  PromptTemplate,
+  getSelectedPromptTemplate,
+  getTemplateReference,
+} from '@/lib/promptTemplates';
+import {injectPreviewBridge, isErrorEntry} from '@/lib/previewBridge';
+import {TokenUsage} from '@/lib/providers/types';
+import {applyRefinement} from '@/lib/refinement';
+import {
+  GenerationCancelledError,
+  StructuredOutputError,
+  estimateTokenCount,
+  generateTextStream,
+} from '@/lib/textGeneration';
+import {formatSegment, isPartialSegment} from '@/lib/timestamps';
+import {
+  AppContent,
+  ChatMessage,
+  GenerationMetadata,
+  PromptTemplateReference,
+  Quiz,
+  Revision,
+  UsageEntry,
+  VideoSegment,
+} from '@/lib/types';
+import {addUsage} from '@/lib/usage';
+import {getVideoSource} from '@/lib/videoSources';
 
 interface ContentContainerProps {
   contentBasis: string;
+  // Only generate from this part of the video
+  videoSegment?: VideoSegment;
   preSeededSpec?: string;
   preSeededCode?: string;
+  // Revision history and refinement conversation of a previously saved app
+  initialRevisions?: Revision[];
+  initialChat?: ChatMessage[];
+  initialUsage?: UsageEntry[];
+  initialQuiz?: Quiz;
+  // How the saved app was generated, kept until it is generated again
+  initialMetadata?: GenerationMetadata;
   onLoadingStateChange?: (isLoading: boolean) => void;
+  // Called whenever a new revision or chat message is recorded, e.g. to save
+  // the app
+  onContentChange?: (content: AppContent) => void;
+  // Called with the tokens used by each request, e.g. to total a session
+  onUsage?: (
+    stage: PipelineStage,
+    modelName: string,
+    usage: TokenUsage,
+  ) => void;
 }
 
 type LoadingState = 'loading-spec' | 'loading-code' | 'ready' | 'error';
 
+// Requests that can be in progress at the same time, each cancelled on its own
+type RequestKind =
+  'generation' | 'refinement' | 'variants' | 'quiz' | 'evaluation';
+
+// How many distinct errors to send to the model when asking it to fix them
+const MAX_ERRORS_TO_FIX = 20;
+
+// How long the code must be left alone before an edit is recorded as a
+// revision, so that a burst of typing becomes a single revision
+const CODE_EDIT_REVISION_DELAY_MS = 1500;
+
+const createRevision = (
+  kind: Revision['kind'],
+  spec: string,
+  code: string,
+): Revision => ({
+  id: crypto.randomUUID(),
+  createdAt: new Date().toISOString(),
+  kind,
+  spec,
+  code,
+});
+
+const createChatMessage = (
+  role: ChatMessage['role'],
+  text: string,
+  isError?: boolean,
+): ChatMessage => ({
+  id: crypto.randomUUID(),
+  createdAt: new Date().toISOString(),
+  role,
+  text,
+  isError,
+});
+
 // Export the ContentContainer component as a forwardRef component
 export default forwardRef(function ContentContainer(
   {
     contentBasis,
+    videoSegment,
     preSeededSpec,
     preSeededCode,
+    initialRevisions,
+    initialChat,
+    initialUsage,
+    initialQuiz,
+    initialMetadata,
     onLoadingStateChange,
+    onContentChange,
+    onUsage,
   }: ContentContainerProps,
   ref,
 ) {
+  const {t, locale} = useTranslation();
+
+  // Shown while a failed request waits to be tried again
+  const getRetryNote = (attempt: number, maxRetries: number, error: unknown) =>
+    t('loading.retry', {
+      attempt,
+      maxRetries,
+      error: error instanceof Error ? error.message : String(error),
+    });
   const [spec, setSpec] = useState<string>(preSeededSpec || '');
   const [code, setCode] = useState<string>(preSeededCode || '');
   const [iframeKey, setIframeKey] = useState(0);
@@ -51,9 +179,35 @@ export default forwardRef(function ContentContainer(
     preSeededSpec && preSeededCode ? 'ready' : 'loading-spec',
   );
   const [error, setError] = useState<string | null>(null);
-  const [isEditingSpec, setIsEditingSpec] = useState(false);
-  const [editedSpec, setEditedSpec] = useState('');
-  const [activeTabIndex, setActiveTabIndex] = useState(0); // 0: Render, 1: Code, 2: Spec
+  const [errorDetails, setErrorDetails] = useState<string[]>([]);
+  const [loadingNote, setLoadingNote] = useState(''); // Shown below the loading message
+  const [codeWarnings, setCodeWarnings] = useState<HTMLDiagnostic[]>([]);
+  const [activeTabIndex, setActiveTabIndex] = useState(0); // 0: Render, 1: Code, 2: Spec, 3: History, 4: Console, 5: Variants, 6: Quiz, 7: Evaluation
+  const [streamedText, setStreamedText] = useState(''); // Response text received so far
+  const [revisions, setRevisions] = useState<Revision[]>(() =>
+    initialRevisions?.length
+      ? initialRevisions
+      : preSeededSpec && preSeededCode
+        ? [createRevision('original', preSeededSpec, preSeededCode)]
+        : [],
+  );
+  const [chat, setChat] = useState<ChatMessage[]>(initialChat || []);
+  const [usage, setUsage] = useState<UsageEntry[]>(initialUsage || []);
+  const [isRefining, setIsRefining] = useState(false);
+  // Whether generated code is shown while the rest of its response arrives
+  const [isFinishingCode, setIsFinishingCode] = useState(false);
+  // What the app in the preview logs
+  const previewConsole = useConsoleEntries(code);
+  const [metadata, setMetadata] = useState<GenerationMetadata | undefined>(
+    initialMetadata,
+  );
+  // When the responses served from the generation cache were first generated
+  const [cacheHits, setCacheHits] = useState<
+    Partial<Record<PipelineStage, string>>
+  >({});
+  const hasUnsavedChanges = useRef(false);
+  const codeEditTimer = useRef<ReturnType<typeof setTimeout>>(undefined);
+  const requestControllers = useRef(new Map<RequestKind, AbortController>());
 
   // Expose methods to the parent component through ref
   useImperativeHandle(ref, () => ({
@@ -61,36 +215,205 @@ export default forwardRef(function ContentContainer(
     getCode: () => code,
   }));
 
+  // Add the tokens used by a request to the app's and the session's totals
+  const recordUsage = (
+    stage: PipelineStage,
+    modelName: string,
+    tokenUsage: TokenUsage,
+  ) => {
+    hasUnsavedChanges.current = true;
+    setUsage((prev) => addUsage(prev, stage, modelName, tokenUsage));
+    onUsage?.(stage, modelName, tokenUsage);
+  };
+
+  const recordCacheHit = (stage: PipelineStage, entry: CachedGeneration) =>
+    setCacheHits((prev) => ({...prev, [stage]: entry.createdAt}));
+
+  const showRetry = (attempt: number, maxRetries: number, error: unknown) => {
+    setStreamedText('');
+    setLoadingNote(getRetryNote(attempt, maxRetries, error));
+  };
+
+  // Start a request, cancelling the previous one of the same kind
+  const startRequest = (kind: RequestKind) => {
+    requestControllers.current.get(kind)?.abort();
+    const controller = new AbortController();
+    requestControllers.current.set(kind, controller);
+    return controller.signal;
+  };
+
+  const cancelRequest = (kind: RequestKind) =>
+    requestControllers.current.get(kind)?.abort();
+
+  // Stop every request when unmounting, e.g. when the app is reloaded, so that
+  // late responses don't change the state
+  useEffect(() => {
+    const controllers = requestControllers.current;
+    return () => controllers.forEach((controller) => controller.abort());
+  }, []);
+
+  const {quiz, ...quizState} = useQuiz({
+    videoUrl: contentBasis,
+    videoSegment,
+    initialQuiz,
+    startRequest: () => startRequest('quiz'),
+    getRetryNote,
+    onUsage: recordUsage,
+    onGenerated: () => {
+      hasUnsavedChanges.current = true;
+    },
+  });
+
+  const variants = useVariants({
+    startRequest: () => startRequest('variants'),
+    getRetryNote,
+    onUsage: recordUsage,
+    // Keep every variant in the history, whether or not it is promoted
+    onReady: (variantCode) => addRevision('variant', spec, variantCode),
+  });
+
+  const evaluation = useEvaluation({
+    startRequest: () => startRequest('evaluation'),
+    getRetryNote,
+    onUsage: recordUsage,
+  });
+
   // Helper function to generate content spec from video
-  const generateSpecFromVideo = async (videoUrl: string): Promise<string> => {
-    const specResponse = await generateText({
-      modelName: 'gemini-2.0-flash',
-      prompt: SPEC_FROM_VIDEO_PROMPT,
-      videoUrl: videoUrl,
+  const generateSpecFromVideo = async (
+    videoUrl: string,
+    template: PromptTemplate,
+    signal: AbortSignal,
+    cache: CacheMode,
+  ): Promise<string> => {
+    setStreamedText('');
+    const spec = await generateSpec({
+      videoUrl,
+      videoSegment,
+      template,
+      settings: getGenerationSettings(),
+      signal,
+      cache,
+      onProgress: setStreamedText,
+      onRetry: showRetry,
+      onCacheHit: recordCacheHit,
+      onUsage: recordUsage,
+      onRepair: (attempt, maxAttempts, issues) => {
+        setStreamedText('');
+        setLoadingNote(
+          t('loading.repairSpec', {attempt, maxAttempts, issue: issues[0]}),
+        );
+      },
     });
+    setLoadingNote('');
 
-    let spec = parseJSON(specResponse).spec;
+    return spec;
+  };
 
-    spec += SPEC_ADDENDUM;
+  // Helper function to generate code from content spec, with optional extra
+  // instructions that are not part of the spec
+  const generateCodeFromSpec = async (
+    spec: string,
+    signal: AbortSignal,
+    cache: CacheMode,
+    extraInstructions = '',
+  ): Promise<string> => {
+    // The code shown before the response finished, if any
+    let earlyCode = '';
 
-    return spec;
+    setStreamedText('');
+    setLoadingNote('');
+    try {
+      const {code, diagnostics} = await generateCode({
+        spec,
+        extraInstructions,
+        settings: getGenerationSettings(),
+        signal,
+        cache,
+        onRetry: showRetry,
+        onCacheHit: recordCacheHit,
+        onUsage: recordUsage,
+        onProgress: (textSoFar) => {
+          setStreamedText(textSoFar);
+          setLoadingNote('');
+
+          // Show the finished app as soon as the closing code fence arrives,
+          // even if the model is still sending trailing text. It can't be
+          // changed until the response is done, as the response replaces it.
+          if (
+            !earlyCode &&
+            parsePartialHTML(textSoFar, CODE_REGION_OPENER, CODE_REGION_CLOSER)
+              .isComplete
+          ) {
+            const parsed = parseHTML(
+              textSoFar,
+              CODE_REGION_OPENER,
+              CODE_REGION_CLOSER,
+            );
+            if (parsed.code) {
+              earlyCode = parsed.code;
+              setCode(parsed.code);
+              setCodeWarnings(parsed.diagnostics);
+              setLoadingState('ready');
+              setIsFinishingCode(true);
+              setActiveTabIndex(0); // Switch to render tab
+            }
+          }
+        },
+      });
+
+      setCodeWarnings(diagnostics);
+      if (!earlyCode) {
+        setActiveTabIndex(0); // Switch to render tab
+      }
+      return code;
+    } catch (err) {
+      // Cancelling after the code was shown only skips the trailing text
+      if (earlyCode && err instanceof GenerationCancelledError) {
+        return earlyCode;
+      }
+      throw err;
+    } finally {
+      setIsFinishingCode(false);
+    }
   };
 
-  // Helper function to generate code from content spec
-  const generateCodeFromSpec = async (spec: string): Promise<string> => {
-    const codeResponse = await generateText({
-      modelName: 'gemini-2.5-pro-preview-03-25',
-      prompt: spec,
-    });
+  const addRevision = (kind: Revision['kind'], spec: string, code: string) => {
+    hasUnsavedChanges.current = true;
+    setRevisions((prev) => [...prev, createRevision(kind, spec, code)]);
+  };
 
-    const code = parseHTML(
-      codeResponse,
-      CODE_REGION_OPENER,
-      CODE_REGION_CLOSER,
-    );
-    return code;
+  // Record a revision for newly generated content. The prompt template is
+  // only given when a new spec was generated.
+  const addGeneratedRevision = (
+    kind: Revision['kind'],
+    spec: string,
+    code: string,
+    promptTemplate?: PromptTemplateReference,
+  ) => {
+    setMetadata((prev) => ({
+      ...getGenerationMetadata(getGenerationSettings(), videoSegment),
+      promptTemplate: promptTemplate ?? prev?.promptTemplate,
+    }));
+    addRevision(kind, spec, code);
   };
 
+  const addChatMessage = (message: ChatMessage) => {
+    hasUnsavedChanges.current = true;
+    setChat((prev) => [...prev, message]);
+  };
+
+  // Let the parent know about each new revision, chat message, quiz or request,
+  // e.g. to save it. Nothing is saved until there is code, so tokens spent
+  // while generating a new app are saved along with its first revision.
+  useEffect(() => {
+    if (hasUnsavedChanges.current && code) {
+      onContentChange?.({spec, code, revisions, chat, usage, quiz, metadata});
+    }
+  }, [revisions, chat, quiz, usage]);
+
+  // Don't record a pending code edit after unmounting
+  useEffect(() => () => clearTimeout(codeEditTimer.current), []);
+
   // Propagate loading state changes as a boolean
   useEffect(() => {
     if (onLoadingStateChange) {
@@ -100,46 +423,71 @@ export default forwardRef(function ContentContainer(
     }
   }, [loadingState, onLoadingStateChange]);
 
-  // On mount (or when contentBasis changes), generate a content spec and then use that spec to generate code
-  useEffect(() => {
-    async function generateContent() {
-      // If we have pre-seeded content, skip generation
-      if (preSeededSpec && preSeededCode) {
-        setSpec(preSeededSpec);
-        setCode(preSeededCode);
-        setLoadingState('ready');
-        return;
-      }
+  // Generate a content spec based on the video, and then code from the spec
+  const generateContent = async (cache: CacheMode) => {
+    const signal = startRequest('generation');
 
-      try {
-        // Reset states
-        setLoadingState('loading-spec');
-        setError(null);
-        setSpec('');
-        setCode('');
-
-        // Generate a content spec based on video content
-        const generatedSpec = await generateSpecFromVideo(contentBasis);
-        setSpec(generatedSpec);
-        setLoadingState('loading-code');
-
-        // Generate code using the generated content spec
-        const generatedCode = await generateCodeFromSpec(generatedSpec);
-        setCode(generatedCode);
-        setLoadingState('ready');
-      } catch (err) {
-        console.error(
-          'An error occurred while attempting to generate content:',
-          err,
-        );
-        setError(
-          err instanceof Error ? err.message : 'An unknown error occurred',
-        );
-        setLoadingState('error');
+    try {
+      // Reset states
+      setLoadingState('loading-spec');
+      setError(null);
+      setErrorDetails([]);
+      setLoadingNote('');
+      setSpec('');
+      setCode('');
+      setCodeWarnings([]);
+      setCacheHits({});
+
+      // Generate a content spec based on video content
+      const template = getSelectedPromptTemplate();
+      const generatedSpec = await generateSpecFromVideo(
+        contentBasis,
+        template,
+        signal,
+        cache,
+      );
+      setSpec(generatedSpec);
+      setLoadingState('loading-code');
+
+      // Generate code using the generated content spec
+      const generatedCode = await generateCodeFromSpec(
+        generatedSpec,
+        signal,
+        cache,
+      );
+      setCode(generatedCode);
+      setLoadingState('ready');
+      addGeneratedRevision(
+        'generation',
+        generatedSpec,
+        generatedCode,
+        getTemplateReference(template),
+      );
+    } catch (err) {
+      if (requestControllers.current.get('generation')?.signal !== signal) {
+        return; // Replaced by a newer request
       }
+      console.error(
+        'An error occurred while attempting to generate content:',
+        err,
+      );
+      setError(err instanceof Error ? err.message : t('error.unknown'));
+      setErrorDetails(err instanceof StructuredOutputError ? err.issues : []);
+      setLoadingState('error');
+    }
+  };
+
+  // On mount (or when contentBasis changes), generate a content spec and then use that spec to generate code
+  useEffect(() => {
+    // If we have pre-seeded content, skip generation
+    if (preSeededSpec && preSeededCode) {
+      setSpec(preSeededSpec);
+      setCode(preSeededCode);
+      setLoadingState('ready');
+      return;
     }
 
-    generateContent();
+    generateContent('use');
   }, [contentBasis, preSeededSpec, preSeededCode]);
 
   // Re-render iframe when code changes
@@ -161,50 +509,210 @@ export default forwardRef(function ContentContainer(
 
   const handleCodeChange = (value: string | undefined) => {
     setCode(value || '');
-    setSaveMessage('HTML updated. Changes will appear in the Render tab.');
+    setCodeWarnings([]); // The warnings described the generated code
+    setSaveMessage(t('code.updated'));
+
+    clearTimeout(codeEditTimer.current);
+    codeEditTimer.current = setTimeout(
+      () => addRevision('code-edit', spec, value || ''),
+      CODE_EDIT_REVISION_DELAY_MS,
+    );
   };
 
-  const handleSpecEdit = () => {
-    setEditedSpec(spec);
-    setIsEditingSpec(true);
+  const handleRestore = (revision: Revision, part: RestorePart) => {
+    const restoredSpec = part === 'spec' ? revision.spec : spec;
+    const restoredCode = part === 'code' ? revision.code : code;
+
+    clearTimeout(codeEditTimer.current);
+    setSpec(restoredSpec);
+    setCode(restoredCode);
+    setCodeWarnings([]);
+    addRevision('restore', restoredSpec, restoredCode);
+    setActiveTabIndex(part === 'code' ? 0 : 2); // Show what was restored
   };
 
-  const handleSpecSave = async () => {
-    const trimmedEditedSpec = editedSpec.trim();
+  // Ask the model to change the current app according to an instruction
+  const handleRefine = async (instruction: string) => {
+    const previousInstructions = chat
+      .filter((message) => message.role === 'user')
+      .map((message) => message.text);
 
-    // Only regenerate if the spec has actually changed
-    if (trimmedEditedSpec === spec) {
-      setIsEditingSpec(false); // Close the editor
-      setEditedSpec(''); // Reset edited spec state
-      return;
+    clearTimeout(codeEditTimer.current);
+    addChatMessage(createChatMessage('user', instruction));
+    setIsRefining(true);
+    setStreamedText('');
+    setLoadingNote('');
+    const signal = startRequest('refinement');
+
+    try {
+      const options = getStageOptions(getGenerationSettings(), 'code');
+      const response = await generateTextStream(
+        {
+          ...options,
+          signal,
+          onRetry: showRetry,
+          onUsage: (tokenUsage) =>
+            recordUsage('code', options.modelName, tokenUsage),
+          prompt: getRefinementPrompt(
+            spec,
+            code,
+            previousInstructions,
+            instruction,
+          ),
+        },
+        (textSoFar) => {
+          setStreamedText(textSoFar);
+          setLoadingNote('');
+        },
+      );
+
+      const refinement = applyRefinement(code, response);
+      setCode(refinement.code);
+      setCodeWarnings(refinement.diagnostics);
+      addRevision('refinement', spec, refinement.code);
+      addChatMessage(
+        createChatMessage('model', refinement.summary || t('chat.updated')),
+      );
+    } catch (err) {
+      if (err instanceof GenerationCancelledError) {
+        addChatMessage(createChatMessage('model', err.message, true));
+        return;
+      }
+      console.error('An error occurred while refining the app:', err);
+      addChatMessage(
+        createChatMessage(
+          'model',
+          t('chat.updateFailed', {
+            error: err instanceof Error ? err.message : t('error.unknown'),
+          }),
+          true,
+        ),
+      );
+    } finally {
+      setIsRefining(false);
+      setStreamedText('');
+      setLoadingNote('');
     }
+  };
+
+  // Ask the model to fix the errors the app logged, through the chat so that
+  // the fix is part of the conversation
+  const handleFixErrors = () => {
+    const errors = [
+      ...new Set(
+        previewConsole.entries.filter(isErrorEntry).map((e) => e.message),
+      ),
+    ].slice(0, MAX_ERRORS_TO_FIX);
+    setActiveTabIndex(0); // Show the progress in the chat panel
+    handleRefine(getFixErrorsInstruction(errors));
+  };
+
+  // Generate the code again from the current spec, with optional extra
+  // instructions
+  const regenerateCode = async (cache: CacheMode, extraInstructions = '') => {
+    const signal = startRequest('generation');
 
     try {
+      clearTimeout(codeEditTimer.current);
       setLoadingState('loading-code');
       setError(null);
-      setSpec(trimmedEditedSpec); // Update spec state with trimmed version
-      setIsEditingSpec(false);
+      setErrorDetails([]);
+      setCacheHits({});
       setActiveTabIndex(1); // Switch to code tab
 
-      // Generate code using the edited content spec
-      const generatedCode = await generateCodeFromSpec(trimmedEditedSpec);
+      const generatedCode = await generateCodeFromSpec(
+        spec,
+        signal,
+        cache,
+        extraInstructions,
+      );
       setCode(generatedCode);
       setLoadingState('ready');
+      addGeneratedRevision('generation', spec, generatedCode);
     } catch (err) {
+      // Go back to the current code
+      if (err instanceof GenerationCancelledError) {
+        setLoadingState('ready');
+        return;
+      }
       console.error(
         'An error occurred while attempting to generate code:',
         err,
       );
-      setError(
-        err instanceof Error ? err.message : 'An unknown error occurred',
-      );
+      setError(err instanceof Error ? err.message : t('error.unknown'));
       setLoadingState('error');
     }
   };
 
-  const handleSpecCancel = () => {
-    setIsEditingSpec(false);
-    setEditedSpec('');
+  // Generate the code again, telling the model which rules the current code
+  // breaks
+  const handleRegenerateWithViolations = (violations: PolicyViolation[]) =>
+    regenerateCode(
+      'use',
+      getPolicyViolationsAddendum(
+        violations.map((violation) => violation.message),
+      ),
+    );
+
+  // Ask the model again instead of using the cached responses
+  const handleForceRegenerate = () =>
+    cacheHits.spec ? generateContent('refresh') : regenerateCode('refresh');
+
+  // Try a failed generation again, asking the model instead of the cache. The
+  // spec is kept if it was generated.
+  const handleRetry = () =>
+    spec ? regenerateCode('refresh') : generateContent('refresh');
+
+  // Generate the code again, telling the model which spec items the current
+  // code does not fully implement
+  const handleRegenerateWithGaps = (gaps: SpecItemEvaluation[]) =>
+    regenerateCode('use', getSpecGapsAddendum(gaps));
+
+  // Make a variant the app's code. Every variant is already in the history.
+  const handlePromoteVariant = (promoted: Variant) => {
+    clearTimeout(codeEditTimer.current);
+    addGeneratedRevision('promoted-variant', spec, promoted.code);
+    setCode(promoted.code);
+    setCodeWarnings(promoted.diagnostics);
+    variants.clear();
+    setActiveTabIndex(0); // Switch to render tab
+  };
+
+  // Generate the code again from an edited spec
+  const handleSpecSave = async (editedSpec: string) => {
+    const signal = startRequest('generation');
+
+    try {
+      setLoadingState('loading-code');
+      setError(null);
+      setErrorDetails([]);
+      setCacheHits({});
+      setSpec(editedSpec);
+      setActiveTabIndex(1); // Switch to code tab
+
+      // Generate code using the edited content spec
+      const generatedCode = await generateCodeFromSpec(
+        editedSpec,
+        signal,
+        'use',
+      );
+      setCode(generatedCode);
+      setLoadingState('ready');
+      addGeneratedRevision('spec-edit', editedSpec, generatedCode);
+    } catch (err) {
+      // Go back to the spec the current code was generated from
+      if (err instanceof GenerationCancelledError) {
+        setSpec(spec);
+        setLoadingState('ready');
+        return;
+      }
+      console.error(
+        'An error occurred while attempting to generate code:',
+        err,
+      );
+      setError(err instanceof Error ? err.message : t('error.unknown'));
+      setLoadingState('error');
+    }
   };
 
   const renderLoadingSpinner = () => (
@@ -226,9 +734,36 @@ export default forwardRef(function ContentContainer(
           marginTop: '20px',
         }}>
         {loadingState === 'loading-spec'
-          ? 'Generating content spec from video...'
-          : 'Generating code from content spec...'}
+          ? isPartialSegment(videoSegment)
+            ? t('loading.specSegment', {
+                segment: formatSegment(videoSegment!, t),
+              })
+            : t('loading.spec')
+          : t('loading.code')}
       </p>
+      {loadingNote && (
+        <p style={{marginTop: '0.5rem', textAlign: 'center'}}>{loadingNote}</p>
+      )}
+      {streamedText && renderStreamingCounter()}
+      {renderCancelButton('generation')}
+    </div>
+  );
+
+  const renderCancelButton = (kind: RequestKind) => (
+    <button
+      className="button-secondary cancel-button"
+      onClick={() => cancelRequest(kind)}>
+      {t('common.cancel')}
+    </button>
+  );
+
+  // Live count of how much of the response has arrived
+  const renderStreamingCounter = () => (
+    <div className="streaming-counter">
+      {t('loading.streamed', {
+        characters: streamedText.length.toLocaleString(locale.code),
+        tokens: estimateTokenCount(streamedText).toLocaleString(locale.code),
+      })}
     </div>
   );
 
@@ -251,17 +786,51 @@ export default forwardRef(function ContentContainer(
         }}>
         error
       </div>
-      <h3 style={{fontSize: '1.5rem', marginBottom: '0.5rem'}}>Error</h3>
-      <p>{error || 'Something went wrong'}</p>
-      {!contentBasis.startsWith('http://') &&
-      !contentBasis.startsWith('https://') ? (
+      <h3 style={{fontSize: '1.5rem', marginBottom: '0.5rem'}}>
+        {t('error.title')}
+      </h3>
+      <p>{error || t('error.generic')}</p>
+      {errorDetails.length > 0 && (
+        <ul className="error-details">
+          {errorDetails.map((detail) => (
+            <li key={detail}>{detail}</li>
+          ))}
+        </ul>
+      )}
+      {!getVideoSource(contentBasis) ? (
         <p style={{marginTop: '0.5rem'}}>
-          (<strong>NOTE:</strong> URL must begin with http:// or https://)
+          (<strong>{t('error.note')}</strong> {t('error.urlNote')})
         </p>
       ) : null}
+      <button
+        className="button-primary"
+        style={{marginTop: '1rem'}}
+        onClick={handleRetry}>
+        {t('error.retry')}
+      </button>
     </div>
   );
 
+  const runtimeErrorCount = previewConsole.entries.filter(isErrorEntry).length;
+
+  // Whether a response will replace the current code, so it can't be changed
+  const isBusy = isRefining || isFinishingCode;
+
+  // Lets the rest of the response be skipped once the code has been shown
+  const renderFinishingOverlay = () =>
+    isFinishingCode && (
+      <div className="streaming-counter-overlay">
+        {renderStreamingCounter()}
+        {renderCancelButton('generation')}
+      </div>
+    );
+
+  const streamedCode =
+    loadingState === 'loading-code'
+      ? parsePartialHTML(streamedText, CODE_REGION_OPENER, CODE_REGION_CLOSER)
+          .code
+      : '';
+
   // Styles for tab list
   const tabListStyle = {
     backgroundColor: 'transparent',
@@ -277,7 +846,7 @@ export default forwardRef(function ContentContainer(
     borderTopRightRadius: '4px',
     cursor: 'pointer',
     fontSize: '14px',
-    marginRight: '4px',
+    marginInlineEnd: '4px',
     padding: '8px 12px',
   };
 
@@ -288,6 +857,7 @@ export default forwardRef(function ContentContainer(
     if (loadingState === 'error') {
       return spec ? (
         <div
+          dir="auto"
           style={{
             whiteSpace: 'pre-wrap',
             fontFamily: 'var(--font-technical)',
@@ -308,71 +878,34 @@ export default forwardRef(function ContentContainer(
     }
 
     if (loadingState === 'loading-spec') {
-      return renderLoadingSpinner();
-    }
+      const partialSpec = parsePartialJSONString(streamedText, 'spec');
+      if (!partialSpec) {
+        return renderLoadingSpinner();
+      }
 
-    if (isEditingSpec) {
       return (
         <div style={{height: '100%', display: 'flex', flexDirection: 'column'}}>
-          <Editor
-            height="100%"
-            defaultLanguage="text"
-            value={editedSpec}
-            onChange={(value) => setEditedSpec(value || '')}
-            theme="light"
-            options={{
-              minimap: {enabled: false},
-              fontSize: 14,
-              wordWrap: 'on',
-              lineNumbers: 'off',
-            }}
-          />
-          <div style={{display: 'flex', gap: '6px', ...buttonContainerStyle}}>
-            <button onClick={handleSpecSave} className="button-primary">
-              Save & regenerate code
-            </button>
-            <button onClick={handleSpecCancel} className="button-secondary">
-              Cancel
-            </button>
+          <div
+            dir="auto"
+            style={{
+              whiteSpace: 'pre-wrap',
+              fontFamily: 'var(--font-technical)',
+              lineHeight: 1.75,
+              flex: 1,
+              overflow: 'auto',
+              padding: '1rem 2rem',
+            }}>
+            {partialSpec}
+          </div>
+          <div className="streaming-footer" style={buttonContainerStyle}>
+            {renderStreamingCounter()}
+            {renderCancelButton('generation')}
           </div>
         </div>
       );
     }
 
-    return (
-      <div style={{height: '100%', display: 'flex', flexDirection: 'column'}}>
-        <div
-          style={{
-            whiteSpace: 'pre-wrap',
-            fontFamily: 'var(--font-technical)',
-            lineHeight: 1.75,
-            flex: 1,
-            overflow: 'auto',
-            padding: '1rem 2rem',
-            maskImage:
-              'linear-gradient(to bottom, black 95%, transparent 100%)',
-            WebkitMaskImage:
-              'linear-gradient(to bottom, black 95%, transparent 100%)',
-          }}>
-          {spec}
-        </div>
-        <div style={buttonContainerStyle}>
-          <button
-            style={{display: 'flex', alignItems: 'center', gap: '5px'}}
-            onClick={handleSpecEdit}
-            className="button-primary">
-            Edit{' '}
-            <span
-              style={{
-                fontFamily: 'var(--font-symbols)',
-                fontSize: '1.125rem',
-              }}>
-              edit
-            </span>
-          </button>
-        </div>
-      </div>
-    );
+    return <SpecPanel spec={spec} onSave={handleSpecSave} disabled={isBusy} />;
   };
 
   return (
@@ -401,25 +934,38 @@ export default forwardRef(function ContentContainer(
           top: 0,
         }}
         selectedIndex={activeTabIndex}
-        onSelect={(index) => {
-          // If currently editing spec and switching away from spec tab
-          if (isEditingSpec && index !== 2) {
-            setIsEditingSpec(false); // Exit edit mode
-            setEditedSpec(''); // Clear edited content
-          }
-          setActiveTabIndex(index); // Update the active tab index
-        }}>
-        <TabList style={tabListStyle}>
-          <Tab style={tabStyle} selectedClassName="selected-tab">
-            Render
-          </Tab>
-          <Tab style={tabStyle} selectedClassName="selected-tab">
-            Code
-          </Tab>
-          <Tab style={tabStyle} selectedClassName="selected-tab">
-            Spec
-          </Tab>
-        </TabList>
+        // Leaving the spec tab discards any edits to the spec in progress
+        onSelect={setActiveTabIndex}>
+        <div className="tab-bar">
+          <TabList style={tabListStyle}>
+            <Tab style={tabStyle} selectedClassName="selected-tab">
+              {t('tabs.render')}
+            </Tab>
+            <Tab style={tabStyle} selectedClassName="selected-tab">
+              {t('tabs.code')}
+            </Tab>
+            <Tab style={tabStyle} selectedClassName="selected-tab">
+              {t('tabs.spec')}
+            </Tab>
+            <Tab style={tabStyle} selectedClassName="selected-tab">
+              {t('tabs.history')}
+            </Tab>
+            <Tab style={tabStyle} selectedClassName="selected-tab">
+              {t('tabs.console')}
+              {runtimeErrorCount > 0 && ` (${runtimeErrorCount})`}
+            </Tab>
+            <Tab style={tabStyle} selectedClassName="selected-tab">
+              {t('tabs.variants')}
+            </Tab>
+            <Tab style={tabStyle} selectedClassName="selected-tab">
+              {t('tabs.quiz')}
+            </Tab>
+            <Tab style={tabStyle} selectedClassName="selected-tab">
+              {t('tabs.evaluation')}
+            </Tab>
+          </TabList>
+          <UsageSummary label={t('usage.app')} entries={usage} />
+        </div>
 
         <div style={{flex: 1, overflow: 'hidden'}}>
           <TabPanel style={{height: '100%', padding: '0'}}>
@@ -428,18 +974,55 @@ export default forwardRef(function ContentContainer(
             ) : loadingState !== 'ready' ? (
               renderLoadingSpinner()
             ) : (
-              <div
-                style={{height: '100%', width: '100%', position: 'relative'}}>
-                <iframe
-                  key={iframeKey}
-                  srcDoc={code}
+              <div className="render-layout">
+                <div
                   style={{
-                    border: 'none',
-                    width: '100%',
                     height: '100%',
-                  }}
-                  title="rendered-html"
-                  sandbox="allow-scripts"
+                    width: '100%',
+                    position: 'relative',
+                    display: 'flex',
+                    flexDirection: 'column',
+                    minWidth: 0,
+                  }}>
+                  <CacheNotice
+                    cacheHits={cacheHits}
+                    onRegenerate={handleForceRegenerate}
+                    disabled={isBusy}
+                  />
+                  <CodeWarnings
+                    code={code}
+                    diagnostics={codeWarnings}
+                    runtimeErrorCount={runtimeErrorCount}
+                    onShowConsole={() => setActiveTabIndex(4)}
+                    onRegenerateWithViolations={handleRegenerateWithViolations}
+                    disabled={isBusy}
+                  />
+                  <iframe
+                    key={iframeKey}
+                    ref={previewConsole.iframeRef}
+                    srcDoc={injectPreviewBridge(code)}
+                    style={{
+                      border: 'none',
+                      width: '100%',
+                      flex: 1,
+                    }}
+                    title={t('preview.title')}
+                    sandbox="allow-scripts"
+                  />
+                  {renderFinishingOverlay()}
+                </div>
+                <ChatPanel
+                  messages={chat}
+                  onSend={handleRefine}
+                  isBusy={isRefining}
+                  disabled={isFinishingCode}
+                  progress={
+                    <>
+                      {loadingNote && <div>{loadingNote}</div>}
+                      {streamedText && renderStreamingCounter()}
+                      {renderCancelButton('refinement')}
+                    </>
+                  }
                 />
               </div>
             )}
@@ -448,10 +1031,30 @@ export default forwardRef(function ContentContainer(
           <TabPanel style={{height: '100%', padding: '0'}}>
             {loadingState === 'error' ? (
               renderErrorState()
+            ) : loadingState === 'loading-code' && streamedCode ? (
+              // Code reads left to right whatever the UI direction
+              <div dir="ltr" style={{height: '100%', position: 'relative'}}>
+                <Editor
+                  height="100%"
+                  defaultLanguage="html"
+                  value={streamedCode}
+                  theme="vs-dark"
+                  options={{
+                    minimap: {enabled: false},
+                    fontSize: 14,
+                    wordWrap: 'on',
+                    readOnly: true,
+                  }}
+                />
+                <div className="streaming-counter-overlay">
+                  {renderStreamingCounter()}
+                  {renderCancelButton('generation')}
+                </div>
+              </div>
             ) : loadingState !== 'ready' ? (
               renderLoadingSpinner()
             ) : (
-              <div style={{height: '100%', position: 'relative'}}>
+              <div dir="ltr" style={{height: '100%', position: 'relative'}}>
                 <Editor
                   height="100%"
                   defaultLanguage="html"
@@ -464,6 +1067,7 @@ export default forwardRef(function ContentContainer(
                     wordWrap: 'on',
                     formatOnPaste: true,
                     formatOnType: true,
+                    readOnly: isBusy, // The response will replace the code
                   }}
                 />
                 {saveMessage && (
@@ -471,7 +1075,7 @@ export default forwardRef(function ContentContainer(
                     style={{
                       position: 'absolute',
                       bottom: '10px',
-                      right: '10px',
+                      insetInlineEnd: '10px',
                       background: 'rgba(0,0,0,0.7)',
                       color: 'white',
                       padding: '5px 10px',
@@ -481,6 +1085,7 @@ export default forwardRef(function ContentContainer(
                     {saveMessage}
                   </div>
                 )}
+                {renderFinishingOverlay()}
               </div>
             )}
           </TabPanel>
@@ -494,6 +1099,63 @@ export default forwardRef(function ContentContainer(
             }}>
             {renderSpecContent()}
           </TabPanel>
+
+          <TabPanel style={{height: '100%', padding: '0'}}>
+            <RevisionHistory
+              revisions={revisions}
+              onRestore={handleRestore}
+              disabled={loadingState !== 'ready' || isBusy}
+            />
+          </TabPanel>
+
+          <TabPanel style={{height: '100%', padding: '0'}}>
+            <ConsolePanel
+              entries={previewConsole.entries}
+              onClear={previewConsole.clear}
+              onFixErrors={handleFixErrors}
+              disabled={loadingState !== 'ready' || isBusy}
+            />
+          </TabPanel>
+
+          <TabPanel style={{height: '100%', padding: '0'}}>
+            <VariantGrid
+              variants={variants.variants}
+              count={variants.count}
+              onCountChange={variants.setCount}
+              onGenerate={() => variants.generate(spec)}
+              onCancel={() => cancelRequest('variants')}
+              onPromote={handlePromoteVariant}
+              disabled={loadingState !== 'ready' || isBusy}
+            />
+          </TabPanel>
+
+          <TabPanel style={{height: '100%', padding: '0'}}>
+            <QuizPanel
+              quiz={quiz}
+              isGenerating={quizState.isGenerating}
+              note={quizState.note}
+              error={quizState.error}
+              onGenerate={quizState.generate}
+              onCancel={() => cancelRequest('quiz')}
+              disabled={loadingState !== 'ready'}
+            />
+          </TabPanel>
+
+          <TabPanel style={{height: '100%', padding: '0'}}>
+            <EvaluationPanel
+              evaluation={evaluation.evaluation}
+              isOutdated={evaluation.evaluatedCode !== code}
+              method={evaluation.method}
+              onMethodChange={evaluation.setMethod}
+              isEvaluating={evaluation.isEvaluating}
+              note={evaluation.note}
+              error={evaluation.error}
+              onEvaluate={() => evaluation.evaluate(spec, code)}
+              onCancel={() => cancelRequest('evaluation')}
+              onRegenerateWithGaps={handleRegenerateWithGaps}
+              disabled={loadingState !== 'ready' || isBusy}
+            />
+          </TabPanel>
         </div>
       </Tabs>
 
@@ -512,6 +1174,15 @@ export default forwardRef(function ContentContainer(
           border-top: 1px solid light-dark(#000, #fff);
         }
 
+        .render-layout {
+          display: flex;
+          height: 100%;
+
+          @media (max-width: 768px) {
+            flex-direction: column;
+          }
+        }
+
         .loading-spinner {
           animation: spin 1s ease-in-out infinite;
           border: 3px solid rgba(0, 0, 0, 0.1);
@@ -521,6 +1192,57 @@ export default forwardRef(function ContentContainer(
           width: 60px;
         }
 
+        .tab-bar {
+          align-items: center;
+          display: flex;
+          justify-content: space-between;
+          padding-inline-end: 12px;
+        }
+
+        .error-details {
+          margin-top: 0.5rem;
+          max-width: 40rem;
+          text-align: start;
+        }
+
+        .streaming-counter {
+          color: light-dark(#787878, #c8c8c8);
+          font-family: var(--font-technical);
+          font-size: 0.875rem;
+        }
+
+        .streaming-footer {
+          align-items: center;
+          display: flex;
+          justify-content: space-between;
+        }
+
+        .cancel-button {
+          font-size: 0.875rem;
+          margin-top: 0.5rem;
+        }
+
+        .streaming-counter-overlay {
+          align-items: center;
+          background: rgba(0, 0, 0, 0.7);
+          border-radius: 4px;
+          bottom: 10px;
+          display: flex;
+          gap: 0.5rem;
+          padding: 5px 10px;
+          position: absolute;
+          inset-inline-end: 10px;
+
+          .cancel-button {
+            margin-top: 0;
+          }
+
+          .streaming-counter {
+            color: white;
+            font-size: 12px;
+          }
+        }
+
         @keyframes spin {
           to {
             transform: rotate(360deg);
@@ -0,0 +1,331 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {
+  AppEvaluation,
+  EvaluationMethod,
+  SPEC_ITEM_STATUSES,
+  SpecItemEvaluation,
+  SpecItemStatus,
+} from '@/lib/evaluation';
+import {getGenerationSettings} from '@/lib/generationSettings';
+import {useTranslation} from '@/lib/i18n';
+import {EvaluationRequest, evaluateApp} from '@/lib/pipeline';
+import {GenerationCancelledError} from '@/lib/textGeneration';
+import {useState} from 'react';
+
+interface EvaluationOptions {
+  // Start an evaluation request, cancelling the previous one
+  startRequest: () => AbortSignal;
+  getRetryNote: (attempt: number, maxRetries: number, error: unknown) => string;
+  onUsage: EvaluationRequest['onUsage'];
+}
+
+// The latest evaluation of an app against its spec and the state of
+// evaluating it
+export function useEvaluation({
+  startRequest,
+  getRetryNote,
+  onUsage,
+}: EvaluationOptions) {
+  const {t} = useTranslation();
+  const [evaluation, setEvaluation] = useState<AppEvaluation>();
+  // The code the evaluation was made of
+  const [evaluatedCode, setEvaluatedCode] = useState('');
+  const [method, setMethod] = useState<EvaluationMethod>('model');
+  const [isEvaluating, setIsEvaluating] = useState(false);
+  const [note, setNote] = useState('');
+  const [error, setError] = useState('');
+
+  // Check how well the code implements each item of the spec
+  const evaluate = async (spec: string, code: string) => {
+    const signal = startRequest();
+    setIsEvaluating(true);
+    setNote('');
+    setError('');
+
+    try {
+      setEvaluation(
+        await evaluateApp({
+          spec,
+          code,
+          method,
+          settings: getGenerationSettings(),
+          signal,
+          cache: 'use',
+          onUsage,
+          onRetry: (attempt, maxRetries, error) =>
+            setNote(getRetryNote(attempt, maxRetries, error)),
+        }),
+      );
+      setEvaluatedCode(code);
+    } catch (err) {
+      if (!(err instanceof GenerationCancelledError)) {
+        console.error('An error occurred while evaluating the app:', err);
+        setError(err instanceof Error ? err.message : t('error.unknown'));
+      }
+    } finally {
+      setIsEvaluating(false);
+    }
+  };
+
+  return {
+    evaluation,
+    evaluatedCode,
+    method,
+    setMethod,
+    isEvaluating,
+    note,
+    error,
+    evaluate,
+  };
+}
+
+interface EvaluationPanelProps {
+  evaluation?: AppEvaluation;
+  // Whether the code has changed since it was evaluated
+  isOutdated: boolean;
+  method: EvaluationMethod;
+  onMethodChange: (method: EvaluationMethod) => void;
+  isEvaluating: boolean;
+  // Shown while evaluating, e.g. when a failed request is being retried
+  note?: string;
+  error?: string;
+  onEvaluate: () => void;
+  onCancel: () => void;
+  // Generate the code again, asking for these items to be completed
+  onRegenerateWithGaps: (gaps: SpecItemEvaluation[]) => void;
+  disabled?: boolean;
+}
+
+const EVALUATION_METHODS: EvaluationMethod[] = ['model', 'heuristic'];
+
+// A checklist of how well the code implements each item of the spec
+export default function EvaluationPanel({
+  evaluation,
+  isOutdated,
+  method,
+  onMethodChange,
+  isEvaluating,
+  note,
+  error,
+  onEvaluate,
+  onCancel,
+  onRegenerateWithGaps,
+  disabled,
+}: EvaluationPanelProps) {
+  const {t} = useTranslation();
+  const gaps = evaluation?.items.filter((item) => item.status !== 'met') ?? [];
+  const countItems = (status: SpecItemStatus) =>
+    evaluation?.items.filter((item) => item.status === status).length ?? 0;
+
+  return (
+    <div className="evaluation">
+      <div className="evaluation-toolbar">
+        <label>
+          {t('evaluation.judge')}{' '}
+          <select
+            value={method}
+            disabled={isEvaluating}
+            onChange={(e) =>
+              onMethodChange(e.target.value as EvaluationMethod)
+            }>
+            {EVALUATION_METHODS.map((method) => (
+              <option key={method} value={method}>
+                {t(`evaluation.methods.${method}`)}
+              </option>
+            ))}
+          </select>
+        </label>
+        <div className="evaluation-actions">
+          {gaps.length > 0 && !isEvaluating && (
+            <button
+              className="button-secondary"
+              disabled={disabled}
+              onClick={() => onRegenerateWithGaps(gaps)}>
+              {t('evaluation.regenerateWithGaps', {count: gaps.length})}
+            </button>
+          )}
+          {isEvaluating ? (
+            <button className="button-secondary" onClick={onCancel}>
+              {t('common.cancel')}
+            </button>
+          ) : (
+            <button
+              className="button-primary"
+              disabled={disabled}
+              onClick={onEvaluate}>
+              {evaluation
+                ? t('evaluation.evaluateAgain')
+                : t('evaluation.evaluate')}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {isEvaluating || error || !evaluation ? (
+        <div className={`evaluation-status ${error ? 'error' : ''}`}>
+          {isEvaluating
+            ? note || t('evaluation.checking')
+            : error || t('evaluation.intro')}
+        </div>
+      ) : (
+        <div className="evaluation-results">
+          <div className="evaluation-summary">
+            {SPEC_ITEM_STATUSES.map((status) => (
+              <span key={status} className={`evaluation-badge ${status}`}>
+                {t(`evaluation.counts.${status}`, {count: countItems(status)})}
+              </span>
+            ))}
+            <span className="evaluation-details">
+              {evaluation.method === 'model'
+                ? t('evaluation.judgedByModel', {model: evaluation.modelName!})
+                : t('evaluation.judgedByKeyTerms')}
+              {isOutdated && ` · ${t('evaluation.outdated')}`}
+            </span>
+          </div>
+
+          <ol className="evaluation-items">
+            {evaluation.items.map((item) => (
+              <li key={item.number} className="evaluation-item">
+                <span className={`evaluation-badge ${item.status}`}>
+                  {t(`evaluation.statuses.${item.status}`)}
+                </span>
+                <div className="evaluation-item-body">
+                  <div>
+                    {item.number}. {item.text}
+                  </div>
+                  <div className="evaluation-reason">{item.reason}</div>
+                </div>
+                {item.status !== 'met' && (
+                  <button
+                    className="evaluation-item-action"
+                    disabled={disabled}
+                    onClick={() => onRegenerateWithGaps([item])}>
+                    {t('evaluation.regenerateWithGap')}
+                  </button>
+                )}
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+
+      <style>{`
+        .evaluation {
+          display: flex;
+          flex-direction: column;
+          height: 100%;
+        }
+
+        .evaluation-toolbar {
+          align-items: center;
+          border-bottom: 1px solid light-dark(#ddd, #7a7a7a);
+          display: flex;
+          font-size: 0.875rem;
+          gap: 0.5rem;
+          justify-content: space-between;
+          padding: 0.5rem 1rem;
+        }
+
+        .evaluation-actions {
+          display: flex;
+          gap: 0.5rem;
+        }
+
+        .evaluation-status {
+          align-items: center;
+          color: light-dark(#787878, #c8c8c8);
+          display: flex;
+          flex: 1;
+          justify-content: center;
+          padding: 0 2rem;
+          text-align: center;
+        }
+
+        .evaluation-status.error {
+          color: var(--color-error);
+        }
+
+        .evaluation-results {
+          flex: 1;
+          overflow-y: auto;
+          padding: 1rem;
+        }
+
+        .evaluation-summary {
+          align-items: center;
+          display: flex;
+          flex-wrap: wrap;
+          gap: 6px;
+        }
+
+        .evaluation-details {
+          color: light-dark(#787878, #c8c8c8);
+          font-size: 12px;
+        }
+
+        .evaluation-badge {
+          border-radius: 12px;
+          flex-shrink: 0;
+          font-size: 12px;
+          padding: 2px 10px;
+        }
+
+        .evaluation-badge.met {
+          background: light-dark(#e6f4ea, #0d3b1e);
+          color: light-dark(#137333, #81c995);
+        }
+
+        .evaluation-badge.partial {
+          background: light-dark(#fef7e0, #4a3c0b);
+          color: light-dark(#7a5b00, #fde293);
+        }
+
+        .evaluation-badge.missing {
+          background: light-dark(#fce8e6, #5c1a14);
+          color: var(--color-error);
+        }
+
+        .evaluation-items {
+          display: flex;
+          flex-direction: column;
+          gap: 0.75rem;
+          list-style: none;
+          margin: 1rem 0 0;
+          padding: 0;
+        }
+
+        .evaluation-item {
+          align-items: flex-start;
+          display: flex;
+          font-size: 0.875rem;
+          gap: 0.75rem;
+        }
+
+        .evaluation-item-body {
+          flex: 1;
+        }
+
+        .evaluation-reason {
+          color: light-dark(#787878, #c8c8c8);
+          margin-top: 0.25rem;
+        }
+
+        .evaluation-item-action {
+          background: none;
+          border: 1px solid currentColor;
+          border-radius: 12px;
+          color: inherit;
+          cursor: pointer;
+          flex-shrink: 0;
+          font-size: 12px;
+          padding: 2px 10px;
+        }
+      `}</style>
+    </div>
+  );
+}
@@ -4,7 +4,9 @@
 */
 /* tslint:disable */
 
+import VideoThumbnail from '@/components/VideoThumbnail';
 import {DataContext} from '@/context';
+import {useTranslation} from '@/lib/i18n';
 import {Example} from '@/lib/types';
 import {useContext, useEffect, useState} from 'react';
 
@@ -15,23 +17,16 @@ interface ExampleGalleryProps {
 }
 
 export default function ExampleGallery({
-  title = 'Examples',
+  title,
   selectedExample,
   onSelectExample,
 }: ExampleGalleryProps) {
-  const getThumbnailUrl = (url: string) => {
-    const regExp =
-      /^.*(youtu.be\/|v\/|u\/\w\/|embed\/|watch\?v=|&v=)([^#&?]*).*/;
-    const match = url.match(regExp);
-    const videoId = match && match[2].length === 11 ? match[2] : null;
-    return videoId ? `https://img.youtube.com/vi/${videoId}/mqdefault.jpg` : '';
-  };
-
+  const {t} = useTranslation();
   const {defaultExample, examples, isLoading} = useContext(DataContext);
 
   return (
     <div className="example-gallery">
-      <h2 className="gallery-title">{title}</h2>
+      <h2 className="gallery-title">{title ?? t('gallery.examples')}</h2>
       <div className="gallery-grid">
         {examples.map((example) => (
           <div
@@ -41,12 +36,7 @@ export default function ExampleGallery({
             }`}
             onClick={() => onSelectExample(example)}>
             <div className="thumbnail-container">
-              {/* eslint-disable-next-line @next/next/no-img-element */}
-              <img
-                src={getThumbnailUrl(example.url)}
-                alt={example.title}
-                className="thumbnail"
-              />
+              <VideoThumbnail url={example.url} title={example.title} />
             </div>
             <div className="gallery-item-title">{example.title}</div>
           </div>
@@ -114,6 +104,16 @@ export default function ExampleGallery({
           height: 100%;
           object-fit: cover;
         }
+
+        .thumbnail-icon {
+          align-items: center;
+          background-color: light-dark(#f0f0f0, #3a3a3e);
+          color: light-dark(#787878, #c8c8c8);
+          display: flex;
+          font-family: var(--font-symbols);
+          font-size: 3rem;
+          justify-content: center;
+        }
       `}</style>
     </div>
   );
@@ -0,0 +1,381 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {
+  clearGenerationCache,
+  getGenerationCacheStats,
+} from '@/lib/generationCache';
+import {
+  BLOCK_THRESHOLDS,
+  DEFAULT_GENERATION_SETTINGS,
+  GenerationSettings,
+  HARM_CATEGORIES,
+  LANGUAGE_OPTIONS,
+  MAX_TEMPERATURE,
+  MODEL_OPTIONS,
+  PIPELINE_STAGES,
+  PipelineStage,
+  StageSettings,
+  getGenerationSettings,
+  saveGenerationSettings,
+} from '@/lib/generationSettings';
+import {useTranslation} from '@/lib/i18n';
+import {
+  DEFAULT_PRICES,
+  ModelPrice,
+  PriceTable,
+  getPriceTable,
+  savePriceTable,
+} from '@/lib/usage';
+import {HarmBlockThreshold} from '@google/genai';
+import {useEffect, useState} from 'react';
+
+interface GenerationSettingsProps {
+  onClose: () => void;
+}
+
+// Dialog for choosing the model and sampling options for each stage of the
+// pipeline, and the safety thresholds for every request
+export default function GenerationSettingsDialog({
+  onClose,
+}: GenerationSettingsProps) {
+  const {t, locale} = useTranslation();
+  const [draft, setDraft] = useState<GenerationSettings>(getGenerationSettings);
+  const [prices, setPrices] = useState<PriceTable>(getPriceTable);
+  const [cacheStats, setCacheStats] = useState<{count: number; size: number}>();
+
+  useEffect(() => {
+    getGenerationCacheStats()
+      .then(setCacheStats)
+      .catch((error) =>
+        console.warn('Failed to read the generation cache:', error),
+      );
+  }, []);
+
+  const isChanged =
+    JSON.stringify(draft) !== JSON.stringify(getGenerationSettings()) ||
+    JSON.stringify(prices) !== JSON.stringify(getPriceTable());
+  const isValid = PIPELINE_STAGES.every((stage) =>
+    draft[stage].modelName.trim(),
+  );
+
+  const updateStage = (stage: PipelineStage, update: Partial<StageSettings>) =>
+    setDraft({...draft, [stage]: {...draft[stage], ...update}});
+
+  // Models in the price table, and the ones in use even if they have no price
+  const pricedModels = [
+    ...new Set([
+      ...Object.keys(prices),
+      ...PIPELINE_STAGES.map((stage) => draft[stage].modelName.trim()),
+    ]),
+  ].filter(Boolean);
+
+  const updatePrice = (
+    modelName: string,
+    field: keyof ModelPrice,
+    value: string,
+  ) => {
+    const price = prices[modelName] ?? {input: 0, video: 0, output: 0};
+    setPrices({
+      ...prices,
+      [modelName]: {...price, [field]: Math.max(0, Number(value) || 0)},
+    });
+  };
+
+  const handleClearCache = async () => {
+    try {
+      await clearGenerationCache();
+      setCacheStats({count: 0, size: 0});
+    } catch (error) {
+      alert(
+        error instanceof Error
+          ? error.message
+          : t('generationSettings.clearCacheFailed'),
+      );
+    }
+  };
+
+  const handleSave = () => {
+    savePriceTable(prices);
+    const saved = {...draft};
+    for (const stage of PIPELINE_STAGES) {
+      saved[stage] = {
+        ...draft[stage],
+        modelName: draft[stage].modelName.trim(),
+      };
+    }
+    saved.outputLanguage = draft.outputLanguage.trim();
+    saveGenerationSettings(saved);
+    onClose();
+  };
+
+  return (
+    <div className="modal-backdrop" onClick={onClose}>
+      <div
+        className="modal generation-settings"
+        role="dialog"
+        aria-label={t('generationSettings.title')}
+        onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>{t('generationSettings.title')}</h2>
+          <button
+            className="modal-close"
+            onClick={onClose}
+            title={t('common.close')}>
+            close
+          </button>
+        </div>
+
+        <div className="generation-settings-body">
+          <fieldset>
+            <legend>{t('generationSettings.outputLanguage')}</legend>
+            <label>
+              {t('generationSettings.writeIn')}
+              <input
+                type="text"
+                list="language-options"
+                placeholder={t('generationSettings.templateLanguage')}
+                value={draft.outputLanguage}
+                onChange={(e) =>
+                  setDraft({...draft, outputLanguage: e.target.value})
+                }
+              />
+            </label>
+          </fieldset>
+
+          {PIPELINE_STAGES.map((stage) => (
+            <fieldset key={stage}>
+              <legend>{t(`stages.${stage}`)}</legend>
+              <label>
+                {t('generationSettings.model')}
+                <input
+                  type="text"
+                  list="model-options"
+                  value={draft[stage].modelName}
+                  onChange={(e) =>
+                    updateStage(stage, {modelName: e.target.value})
+                  }
+                />
+              </label>
+              <label>
+                {t('generationSettings.temperature', {
+                  temperature: draft[stage].temperature.toLocaleString(
+                    locale.code,
+                    {minimumFractionDigits: 2, maximumFractionDigits: 2},
+                  ),
+                })}
+                <input
+                  type="range"
+                  min={0}
+                  max={MAX_TEMPERATURE}
+                  step={0.05}
+                  value={draft[stage].temperature}
+                  onChange={(e) =>
+                    updateStage(stage, {temperature: Number(e.target.value)})
+                  }
+                />
+              </label>
+              <label>
+                {t('generationSettings.maxOutputTokens')}
+                <input
+                  type="number"
+                  min={1}
+                  placeholder={t('generationSettings.modelDefault')}
+                  value={draft[stage].maxOutputTokens ?? ''}
+                  onChange={(e) =>
+                    updateStage(stage, {
+                      maxOutputTokens:
+                        Number(e.target.value) > 0
+                          ? Math.round(Number(e.target.value))
+                          : undefined,
+                    })
+                  }
+                />
+              </label>
+            </fieldset>
+          ))}
+
+          <fieldset>
+            <legend>{t('generationSettings.safety')}</legend>
+            {HARM_CATEGORIES.map(({category, name}) => (
+              <label key={category}>
+                {t(`safety.categories.${name}`)}
+                <select
+                  value={draft.safety[category] ?? ''}
+                  onChange={(e) => {
+                    const safety = {...draft.safety};
+                    if (e.target.value) {
+                      safety[category] = e.target.value as HarmBlockThreshold;
+                    } else {
+                      delete safety[category];
+                    }
+                    setDraft({...draft, safety});
+                  }}>
+                  <option value="">
+                    {t('generationSettings.modelDefault')}
+                  </option>
+                  {BLOCK_THRESHOLDS.map(({threshold, name}) => (
+                    <option key={threshold} value={threshold}>
+                      {t(`safety.thresholds.${name}`)}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </fieldset>
+
+          <fieldset>
+            <legend>{t('generationSettings.prices')}</legend>
+            <table className="price-table">
+              <thead>
+                <tr>
+                  <th>{t('generationSettings.model')}</th>
+                  <th>{t('generationSettings.prices.input')}</th>
+                  <th>{t('generationSettings.prices.video')}</th>
+                  <th>{t('generationSettings.prices.output')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {pricedModels.map((modelName) => (
+                  <tr key={modelName}>
+                    <td>{modelName}</td>
+                    {(['input', 'video', 'output'] as const).map((field) => (
+                      <td key={field}>
+                        <input
+                          type="number"
+                          min={0}
+                          step={0.01}
+                          placeholder={t('generationSettings.prices.notSet')}
+                          value={prices[modelName]?.[field] ?? ''}
+                          onChange={(e) =>
+                            updatePrice(modelName, field, e.target.value)
+                          }
+                        />
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </fieldset>
+
+          {cacheStats && (
+            <fieldset>
+              <legend>{t('generationSettings.cache')}</legend>
+              <div className="generation-cache">
+                {t('generationSettings.cacheStats', {
+                  count: cacheStats.count,
+                  size: (cacheStats.size / 1_000_000).toLocaleString(
+                    locale.code,
+                    {minimumFractionDigits: 1, maximumFractionDigits: 1},
+                  ),
+                })}
+                <button
+                  className="button-secondary"
+                  disabled={cacheStats.count === 0}
+                  onClick={handleClearCache}>
+                  {t('generationSettings.clearCache')}
+                </button>
+              </div>
+            </fieldset>
+          )}
+
+          <datalist id="language-options">
+            {LANGUAGE_OPTIONS.map((language) => (
+              <option key={language} value={language} />
+            ))}
+          </datalist>
+          <datalist id="model-options">
+            {MODEL_OPTIONS.map((model) => (
+              <option key={model} value={model} />
+            ))}
+          </datalist>
+        </div>
+
+        <div className="modal-actions">
+          <button
+            className="button-secondary"
+            onClick={() => {
+              setDraft(DEFAULT_GENERATION_SETTINGS);
+              setPrices(DEFAULT_PRICES);
+            }}>
+            {t('generationSettings.reset')}
+          </button>
+          <button
+            className="button-primary"
+            disabled={!isChanged || !isValid}
+            onClick={handleSave}>
+            {t('common.save')}
+          </button>
+        </div>
+      </div>
+
+      <style>{`
+        .generation-settings {
+          width: 560px;
+        }
+
+        .generation-settings-body {
+          display: flex;
+          flex-direction: column;
+          gap: 1rem;
+          overflow-y: auto;
+          padding: 1rem;
+
+          fieldset {
+            border: 1px solid light-dark(#ddd, #7a7a7a);
+            border-radius: 8px;
+            display: flex;
+            flex-direction: column;
+            gap: 0.75rem;
+            margin: 0;
+            padding: 0.75rem 1rem 1rem;
+          }
+
+          legend {
+            font-weight: 500;
+            padding: 0 0.25rem;
+          }
+
+          label {
+            display: flex;
+            flex-direction: column;
+            font-size: 0.875rem;
+            gap: 0.25rem;
+          }
+        }
+
+        .price-table {
+          border-collapse: collapse;
+          font-size: 0.8125rem;
+          width: 100%;
+
+          th {
+            font-weight: 500;
+            text-align: start;
+          }
+
+          td {
+            padding: 0.125rem 0.25rem 0.125rem 0;
+          }
+
+          input {
+            box-sizing: border-box;
+            width: 5rem;
+          }
+        }
+
+        .generation-cache {
+          align-items: center;
+          display: flex;
+          font-size: 0.875rem;
+          gap: 0.5rem;
+          justify-content: space-between;
+        }
+      `}</style>
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import VideoThumbnail from '@/components/VideoThumbnail';
+import {DataContext} from '@/context';
+import {useTranslation} from '@/lib/i18n';
+import {SavedApp} from '@/lib/types';
+import {useContext} from 'react';
+
+interface LibraryGalleryProps {
+  title?: string;
+  selectedAppId: string | null;
+  onSelectApp: (app: SavedApp) => void;
+}
+
+// Gallery of the generated apps kept in the local library
+export default function LibraryGallery({
+  title,
+  selectedAppId,
+  onSelectApp,
+}: LibraryGalleryProps) {
+  const {t, locale} = useTranslation();
+  const {savedApps, renameApp, deleteApp} = useContext(DataContext);
+
+  const handleRename = (e: React.MouseEvent, app: SavedApp) => {
+    e.stopPropagation(); // Don't open the app
+    const newTitle = prompt(t('library.renamePrompt'), app.title)?.trim();
+    if (newTitle && newTitle !== app.title) {
+      renameApp(app.id, newTitle).catch((error) =>
+        alert(t('library.renameFailed', {error: error.message})),
+      );
+    }
+  };
+
+  const handleDelete = (e: React.MouseEvent, app: SavedApp) => {
+    e.stopPropagation(); // Don't open the app
+    if (confirm(t('library.deleteConfirm', {title: app.title}))) {
+      deleteApp(app.id).catch((error) =>
+        alert(t('library.deleteFailed', {error: error.message})),
+      );
+    }
+  };
+
+  return (
+    <div className="example-gallery library-gallery">
+      <h2 className="gallery-title">{title ?? t('library.title')}</h2>
+      {savedApps.length === 0 ? (
+        <p className="library-empty">{t('library.empty')}</p>
+      ) : (
+        <div className="gallery-grid">
+          {savedApps.map((app) => (
+            <div
+              key={app.id}
+              className={`gallery-item ${
+                selectedAppId === app.id ? 'selected' : ''
+              }`}
+              onClick={() => onSelectApp(app)}>
+              <div className="thumbnail-container">
+                <VideoThumbnail url={app.url} title={app.title} />
+                <div className="library-actions">
+                  <button
+                    className="library-action"
+                    title={t('library.rename')}
+                    onClick={(e) => handleRename(e, app)}>
+                    edit
+                  </button>
+                  <button
+                    className="library-action"
+                    title={t('library.delete')}
+                    onClick={(e) => handleDelete(e, app)}>
+                    delete
+                  </button>
+                </div>
+              </div>
+              <div className="gallery-item-title library-item-title">
+                <span>{app.title}</span>
+                <span className="library-item-date">
+                  {new Date(app.createdAt).toLocaleDateString(locale.code)}
+                </span>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <style>{`
+        .library-gallery {
+          margin-bottom: 2rem;
+        }
+
+        .library-empty {
+          color: light-dark(#787878, #c8c8c8);
+          font-size: 0.9rem;
+        }
+
+        .library-actions {
+          display: flex;
+          gap: 4px;
+          opacity: 0;
+          position: absolute;
+          inset-inline-end: 6px;
+          top: 6px;
+          transition: opacity 0.2s;
+        }
+
+        .gallery-item:hover .library-actions,
+        .library-actions:focus-within {
+          opacity: 1;
+        }
+
+        .library-action {
+          background: rgba(0, 0, 0, 0.6);
+          border: none;
+          color: white;
+          font-family: var(--font-symbols);
+          font-size: 1rem;
+          padding: 2px 6px;
+        }
+
+        .library-action:hover {
+          background: rgba(0, 0, 0, 0.85);
+        }
+
+        .library-item-title {
+          flex-direction: column;
+          gap: 2px;
+        }
+
+        .library-item-date {
+          color: light-dark(#787878, #c8c8c8);
+          font-size: 0.75rem;
+        }
+      `}</style>
+    </div>
+  );
+}
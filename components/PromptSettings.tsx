@@ -0,0 +1,285 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {useTranslation} from '@/lib/i18n';
+import {
+  PromptTemplate,
+  TEMPLATE_VARIABLES,
+  deletePromptTemplate,
+  duplicatePromptTemplate,
+  getSelectedPromptTemplate,
+  listPromptTemplates,
+  savePromptTemplate,
+  selectPromptTemplate,
+} from '@/lib/promptTemplates';
+import {useState} from 'react';
+
+interface PromptSettingsProps {
+  onClose: () => void;
+}
+
+// Show the section markers in a message as code, wherever the translation
+// puts them
+const formatSectionMarkers = (text: string) =>
+  text
+    .split(/(\{\{[#/]name\}\})/)
+    .map((part, index) => (index % 2 ? <code key={index}>{part}</code> : part));
+
+// Dialog for choosing the prompt template used for new apps, and for editing
+// custom templates
+export default function PromptSettings({onClose}: PromptSettingsProps) {
+  const {t} = useTranslation();
+  const [templates, setTemplates] = useState(listPromptTemplates);
+  const [selectedId, setSelectedId] = useState(
+    () => getSelectedPromptTemplate().id,
+  );
+  // The template being viewed, with any unsaved changes
+  const [draft, setDraft] = useState<PromptTemplate>(getSelectedPromptTemplate);
+
+  const saved = templates.find((template) => template.id === draft.id);
+  const isChanged = JSON.stringify(saved) !== JSON.stringify(draft);
+
+  const refresh = (next: PromptTemplate) => {
+    setTemplates(listPromptTemplates());
+    setDraft(next);
+  };
+
+  const handleView = (template: PromptTemplate) => {
+    if (isChanged && !confirm(t('templates.discardConfirm'))) {
+      return;
+    }
+    setDraft(template);
+  };
+
+  const handleUse = () => {
+    selectPromptTemplate(draft.id);
+    setSelectedId(draft.id);
+  };
+
+  const handleSave = () => {
+    try {
+      refresh(savePromptTemplate(draft));
+    } catch (error) {
+      alert(error instanceof Error ? error.message : t('templates.saveFailed'));
+    }
+  };
+
+  const handleDuplicate = () => {
+    refresh(duplicatePromptTemplate(draft));
+  };
+
+  const handleDelete = () => {
+    if (!confirm(t('templates.deleteConfirm', {name: draft.name}))) return;
+    deletePromptTemplate(draft.id);
+    setSelectedId(getSelectedPromptTemplate().id);
+    refresh(getSelectedPromptTemplate());
+  };
+
+  return (
+    <div className="modal-backdrop" onClick={onClose}>
+      <div
+        className="modal prompt-settings"
+        role="dialog"
+        aria-label={t('templates.title')}
+        onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>{t('templates.title')}</h2>
+          <button
+            className="modal-close"
+            onClick={onClose}
+            title={t('common.close')}>
+            close
+          </button>
+        </div>
+
+        <div className="prompt-settings-body">
+          <ul className="prompt-template-list">
+            {templates.map((template) => (
+              <li key={template.id}>
+                <button
+                  className={`prompt-template-item ${
+                    template.id === draft.id ? 'viewing' : ''
+                  }`}
+                  onClick={() => handleView(template)}>
+                  {template.name}
+                  <span className="prompt-template-details">
+                    {template.builtIn
+                      ? t('templates.builtIn')
+                      : t('templates.version', {version: template.version})}
+                    {template.id === selectedId && ` · ${t('templates.inUse')}`}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          <div className="prompt-template-editor">
+            <label>
+              {t('templates.name')}
+              <input
+                type="text"
+                value={draft.name}
+                disabled={draft.builtIn}
+                onChange={(e) => setDraft({...draft, name: e.target.value})}
+              />
+            </label>
+            {TEMPLATE_VARIABLES.map((name) => (
+              <label key={name}>
+                {t(`templates.variables.${name}`)} <code>{`{{${name}}}`}</code>
+                <input
+                  type="text"
+                  value={draft.variables[name]}
+                  placeholder={t(`templates.examples.${name}`)}
+                  disabled={draft.builtIn}
+                  onChange={(e) =>
+                    setDraft({
+                      ...draft,
+                      variables: {...draft.variables, [name]: e.target.value},
+                    })
+                  }
+                />
+              </label>
+            ))}
+            <label>
+              {t('templates.specPrompt')}
+              <textarea
+                rows={10}
+                value={draft.specPrompt}
+                disabled={draft.builtIn}
+                onChange={(e) =>
+                  setDraft({...draft, specPrompt: e.target.value})
+                }
+              />
+            </label>
+            <label>
+              {t('templates.codeAddendum')}
+              <textarea
+                rows={4}
+                value={draft.codeAddendum}
+                disabled={draft.builtIn}
+                onChange={(e) =>
+                  setDraft({...draft, codeAddendum: e.target.value})
+                }
+              />
+            </label>
+            <p className="prompt-template-help">
+              {formatSectionMarkers(
+                t('templates.sectionsHelp', {
+                  open: '{{#name}}',
+                  close: '{{/name}}',
+                }),
+              )}
+              {draft.builtIn && ` ${t('templates.duplicateHelp')}`}
+            </p>
+          </div>
+        </div>
+
+        <div className="modal-actions">
+          {!draft.builtIn && (
+            <button className="button-secondary" onClick={handleDelete}>
+              {t('templates.delete')}
+            </button>
+          )}
+          <button className="button-secondary" onClick={handleDuplicate}>
+            {t('templates.duplicate')}
+          </button>
+          {!draft.builtIn && (
+            <button
+              className="button-secondary"
+              disabled={!isChanged}
+              onClick={handleSave}>
+              {t('common.save')}
+            </button>
+          )}
+          <button
+            className="button-primary"
+            disabled={draft.id === selectedId || isChanged}
+            onClick={handleUse}>
+            {t('templates.use')}
+          </button>
+        </div>
+      </div>
+
+      <style>{`
+        .prompt-settings-body {
+          display: flex;
+          min-height: 0;
+
+          @media (max-width: 768px) {
+            flex-direction: column;
+            overflow-y: auto;
+          }
+        }
+
+        .prompt-template-list {
+          border-inline-end: 1px solid light-dark(#ddd, #7a7a7a);
+          flex-shrink: 0;
+          list-style: none;
+          margin: 0;
+          overflow-y: auto;
+          padding: 0.5rem;
+          width: 220px;
+
+          @media (max-width: 768px) {
+            border-inline-end: none;
+            width: auto;
+          }
+        }
+
+        .prompt-template-item {
+          background: none;
+          border: 1px solid transparent;
+          border-radius: 4px;
+          color: inherit;
+          cursor: pointer;
+          display: flex;
+          flex-direction: column;
+          font-size: 0.875rem;
+          padding: 0.5rem;
+          text-align: start;
+          width: 100%;
+        }
+
+        .prompt-template-item.viewing {
+          border-color: var(--color-accent);
+        }
+
+        .prompt-template-details {
+          color: light-dark(#787878, #c8c8c8);
+          font-size: 0.75rem;
+        }
+
+        .prompt-template-editor {
+          display: flex;
+          flex: 1;
+          flex-direction: column;
+          gap: 0.75rem;
+          overflow-y: auto;
+          padding: 1rem;
+
+          label {
+            display: flex;
+            flex-direction: column;
+            font-size: 0.875rem;
+            gap: 0.25rem;
+          }
+
+          textarea {
+            font-family: var(--font-technical);
+            font-size: 0.8125rem;
+            resize: vertical;
+          }
+        }
+
+        .prompt-template-help {
+          color: light-dark(#787878, #c8c8c8);
+          font-size: 0.8125rem;
+          margin: 0;
+        }
+      `}</style>
+    </div>
+  );
+}
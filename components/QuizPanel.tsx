@@ -0,0 +1,313 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {getGenerationSettings} from '@/lib/generationSettings';
+import {useTranslation} from '@/lib/i18n';
+import {QuizRequest, generateQuiz} from '@/lib/pipeline';
+import {getSelectedPromptTemplate} from '@/lib/promptTemplates';
+import {isCorrectAnswer} from '@/lib/quiz';
+import {GenerationCancelledError} from '@/lib/textGeneration';
+import {Quiz, VideoSegment} from '@/lib/types';
+import {useEffect, useState} from 'react';
+
+interface QuizOptions {
+  videoUrl: string;
+  videoSegment?: VideoSegment;
+  initialQuiz?: Quiz;
+  // Start a quiz request, cancelling the previous one
+  startRequest: () => AbortSignal;
+  getRetryNote: (attempt: number, maxRetries: number, error: unknown) => string;
+  onUsage: QuizRequest['onUsage'];
+  // Called with each new quiz, e.g. to save it
+  onGenerated: (quiz: Quiz) => void;
+}
+
+// The quiz on a video and the state of generating it. A new quiz is always
+// asked for from the model rather than served from the cache.
+export function useQuiz({
+  videoUrl,
+  videoSegment,
+  initialQuiz,
+  startRequest,
+  getRetryNote,
+  onUsage,
+  onGenerated,
+}: QuizOptions) {
+  const {t} = useTranslation();
+  const [quiz, setQuiz] = useState<Quiz | undefined>(initialQuiz);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [note, setNote] = useState('');
+  const [error, setError] = useState('');
+
+  const generate = async () => {
+    const signal = startRequest();
+    setIsGenerating(true);
+    setNote('');
+    setError('');
+
+    try {
+      const generatedQuiz = await generateQuiz({
+        videoUrl,
+        videoSegment,
+        template: getSelectedPromptTemplate(),
+        settings: getGenerationSettings(),
+        signal,
+        cache: quiz ? 'refresh' : 'use',
+        onUsage,
+        onRetry: (attempt, maxRetries, error) =>
+          setNote(getRetryNote(attempt, maxRetries, error)),
+        onRepair: (attempt, maxAttempts, issues) =>
+          setNote(
+            t('loading.repairQuiz', {attempt, maxAttempts, issue: issues[0]}),
+          ),
+      });
+      onGenerated(generatedQuiz);
+      setQuiz(generatedQuiz);
+    } catch (err) {
+      if (!(err instanceof GenerationCancelledError)) {
+        console.error('An error occurred while generating a quiz:', err);
+        setError(err instanceof Error ? err.message : t('error.unknown'));
+      }
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return {quiz, isGenerating, note, error, generate};
+}
+
+interface QuizPanelProps {
+  quiz?: Quiz;
+  isGenerating: boolean;
+  // Shown while generating, e.g. when a failed request is being retried
+  note?: string;
+  error?: string;
+  onGenerate: () => void;
+  onCancel: () => void;
+  disabled?: boolean;
+}
+
+// A quiz on the video for the learner to take and be scored on
+export default function QuizPanel({
+  quiz,
+  isGenerating,
+  note,
+  error,
+  onGenerate,
+  onCancel,
+  disabled,
+}: QuizPanelProps) {
+  const {t} = useTranslation();
+  // The learner's answers, by question index
+  const [answers, setAnswers] = useState<Record<number, string>>({});
+  const [isChecked, setIsChecked] = useState(false);
+
+  // Start over when a new quiz arrives
+  useEffect(() => {
+    setAnswers({});
+    setIsChecked(false);
+  }, [quiz]);
+
+  const questions = quiz?.questions ?? [];
+  const score = questions.filter((question, index) =>
+    isCorrectAnswer(question, answers[index] ?? ''),
+  ).length;
+  const answeredCount = Object.values(answers).filter((answer) =>
+    answer.trim(),
+  ).length;
+
+  const setAnswer = (index: number, answer: string) =>
+    setAnswers((prev) => ({...prev, [index]: answer}));
+
+  return (
+    <div className="quiz">
+      <div className="quiz-toolbar">
+        <span>
+          {isChecked
+            ? t('quiz.score', {score, count: questions.length})
+            : quiz
+              ? t('quiz.questions', {count: questions.length})
+              : ''}
+        </span>
+        {isGenerating ? (
+          <button className="button-secondary" onClick={onCancel}>
+            {t('common.cancel')}
+          </button>
+        ) : (
+          <button
+            className={quiz ? 'button-secondary' : 'button-primary'}
+            disabled={disabled}
+            onClick={onGenerate}>
+            {quiz ? t('quiz.new') : t('quiz.generate')}
+          </button>
+        )}
+      </div>
+
+      {isGenerating || error || !quiz ? (
+        <div className={`quiz-status ${error ? 'error' : ''}`}>
+          {isGenerating
+            ? note || t('quiz.generating')
+            : error || t('quiz.intro')}
+        </div>
+      ) : (
+        <form
+          className="quiz-questions"
+          onSubmit={(e) => {
+            e.preventDefault();
+            setIsChecked(true);
+          }}>
+          {questions.map((question, index) => {
+            const answer = answers[index] ?? '';
+            const isCorrect = isCorrectAnswer(question, answer);
+
+            return (
+              <fieldset
+                key={index}
+                className={`quiz-question ${
+                  isChecked ? (isCorrect ? 'correct' : 'incorrect') : ''
+                }`}
+                disabled={isChecked}>
+                <legend>
+                  {index + 1}. {question.question}
+                </legend>
+                {question.type === 'multiple-choice' ? (
+                  question.choices.map((choice) => (
+                    <label key={choice} className="quiz-choice">
+                      <input
+                        type="radio"
+                        name={`question-${index}`}
+                        checked={answer === choice}
+                        onChange={() => setAnswer(index, choice)}
+                      />
+                      {choice}
+                    </label>
+                  ))
+                ) : (
+                  <input
+                    type="text"
+                    placeholder={t('quiz.yourAnswer')}
+                    value={answer}
+                    onChange={(e) => setAnswer(index, e.target.value)}
+                  />
+                )}
+                {isChecked && (
+                  <div className="quiz-feedback">
+                    <strong>
+                      {isCorrect
+                        ? t('quiz.correct')
+                        : t('quiz.answer', {answer: question.answer})}
+                    </strong>{' '}
+                    {question.explanation}
+                  </div>
+                )}
+              </fieldset>
+            );
+          })}
+
+          <div className="quiz-actions">
+            {isChecked ? (
+              <button
+                type="button"
+                className="button-primary"
+                onClick={() => {
+                  setAnswers({});
+                  setIsChecked(false);
+                }}>
+                {t('quiz.tryAgain')}
+              </button>
+            ) : (
+              <button
+                type="submit"
+                className="button-primary"
+                disabled={answeredCount === 0}>
+                {t('quiz.check')}
+              </button>
+            )}
+          </div>
+        </form>
+      )}
+
+      <style>{`
+        .quiz {
+          display: flex;
+          flex-direction: column;
+          height: 100%;
+        }
+
+        .quiz-toolbar {
+          align-items: center;
+          border-bottom: 1px solid light-dark(#ddd, #7a7a7a);
+          display: flex;
+          font-size: 0.875rem;
+          gap: 0.5rem;
+          justify-content: space-between;
+          padding: 0.5rem 1rem;
+        }
+
+        .quiz-status {
+          align-items: center;
+          color: light-dark(#787878, #c8c8c8);
+          display: flex;
+          flex: 1;
+          justify-content: center;
+          padding: 0 2rem;
+          text-align: center;
+        }
+
+        .quiz-status.error {
+          color: var(--color-error);
+        }
+
+        .quiz-questions {
+          display: flex;
+          flex: 1;
+          flex-direction: column;
+          gap: 1rem;
+          overflow-y: auto;
+          padding: 1rem;
+        }
+
+        .quiz-question {
+          border: 1px solid light-dark(#ddd, #7a7a7a);
+          border-radius: 8px;
+          display: flex;
+          flex-direction: column;
+          gap: 0.5rem;
+          margin: 0;
+          padding: 0.75rem 1rem 1rem;
+
+          legend {
+            font-weight: 500;
+            padding: 0 0.25rem;
+          }
+        }
+
+        .quiz-question.correct {
+          border-color: light-dark(#188038, #81c995);
+        }
+
+        .quiz-question.incorrect {
+          border-color: var(--color-error);
+        }
+
+        .quiz-choice {
+          align-items: center;
+          display: flex;
+          gap: 0.5rem;
+        }
+
+        .quiz-feedback {
+          font-size: 0.875rem;
+        }
+
+        .quiz-actions {
+          display: flex;
+          justify-content: flex-end;
+        }
+      `}</style>
+    </div>
+  );
+}
@@ -0,0 +1,231 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {useTranslation} from '@/lib/i18n';
+import {Revision} from '@/lib/types';
+import {DiffEditor} from '@monaco-editor/react';
+import {useState} from 'react';
+
+export type RestorePart = 'spec' | 'code';
+
+interface RevisionHistoryProps {
+  revisions: Revision[];
+  onRestore: (revision: Revision, part: RestorePart) => void;
+  disabled?: boolean;
+}
+
+// Timeline of an app's revisions, with a diff between any two of them
+export default function RevisionHistory({
+  revisions,
+  onRestore,
+  disabled = false,
+}: RevisionHistoryProps) {
+  const {t, locale} = useTranslation();
+  // The two revisions being compared, defaulting to the latest two
+  const [originalId, setOriginalId] = useState<string | null>(null);
+  const [modifiedId, setModifiedId] = useState<string | null>(null);
+  const [part, setPart] = useState<RestorePart>('code');
+
+  if (revisions.length === 0) {
+    return <div className="history-empty">{t('history.empty')}</div>;
+  }
+
+  const latest = revisions[revisions.length - 1];
+  const original =
+    revisions.find((revision) => revision.id === originalId) ??
+    revisions[Math.max(revisions.length - 2, 0)];
+  const modified =
+    revisions.find((revision) => revision.id === modifiedId) ?? latest;
+
+  return (
+    <div className="history">
+      <ol className="history-list">
+        {[...revisions].reverse().map((revision) => {
+          const index = revisions.indexOf(revision) + 1;
+          return (
+            <li
+              key={revision.id}
+              className={`history-item ${
+                revision === original || revision === modified ? 'compared' : ''
+              }`}>
+              <div className="history-item-header">
+                <strong>
+                  #{index} {t(`history.kinds.${revision.kind}`)}
+                </strong>
+                <span className="history-item-date">
+                  {new Date(revision.createdAt).toLocaleString(locale.code)}
+                </span>
+              </div>
+              <div className="history-item-actions">
+                <label title={t('history.showLeft')}>
+                  <input
+                    type="radio"
+                    name="history-original"
+                    checked={revision === original}
+                    onChange={() => setOriginalId(revision.id)}
+                  />
+                  A
+                </label>
+                <label title={t('history.showRight')}>
+                  <input
+                    type="radio"
+                    name="history-modified"
+                    checked={revision === modified}
+                    onChange={() => setModifiedId(revision.id)}
+                  />
+                  B
+                </label>
+                {revision !== latest && (
+                  <>
+                    <button
+                      className="button-secondary"
+                      disabled={disabled}
+                      onClick={() => onRestore(revision, 'spec')}>
+                      {t('history.restoreSpec')}
+                    </button>
+                    <button
+                      className="button-secondary"
+                      disabled={disabled}
+                      onClick={() => onRestore(revision, 'code')}>
+                      {t('history.restoreCode')}
+                    </button>
+                  </>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+
+      <div className="history-diff">
+        <div className="history-diff-toolbar">
+          <span>
+            {t('history.comparing', {
+              original: revisions.indexOf(original) + 1,
+              modified: revisions.indexOf(modified) + 1,
+            })}
+          </span>
+          <select
+            value={part}
+            onChange={(e) => setPart(e.target.value as RestorePart)}>
+            <option value="code">{t('tabs.code')}</option>
+            <option value="spec">{t('tabs.spec')}</option>
+          </select>
+        </div>
+        <DiffEditor
+          height="100%"
+          language={part === 'code' ? 'html' : 'plaintext'}
+          original={original[part]}
+          modified={modified[part]}
+          theme="vs-dark"
+          options={{
+            readOnly: true,
+            minimap: {enabled: false},
+            fontSize: 14,
+            wordWrap: 'on',
+            renderSideBySide: true,
+          }}
+        />
+      </div>
+
+      <style>{`
+        .history {
+          display: flex;
+          height: 100%;
+
+          @media (max-width: 768px) {
+            flex-direction: column;
+          }
+        }
+
+        .history-empty {
+          align-items: center;
+          color: light-dark(#787878, #c8c8c8);
+          display: flex;
+          height: 100%;
+          justify-content: center;
+          padding: 0 2rem;
+          text-align: center;
+        }
+
+        .history-list {
+          border-inline-end: 1px solid light-dark(#ddd, #7a7a7a);
+          box-sizing: border-box;
+          flex-shrink: 0;
+          list-style: none;
+          margin: 0;
+          overflow-y: auto;
+          padding: 0.5rem;
+          width: 260px;
+
+          @media (max-width: 768px) {
+            border-bottom: 1px solid light-dark(#ddd, #7a7a7a);
+            border-inline-end: none;
+            max-height: 40%;
+            width: 100%;
+          }
+        }
+
+        .history-item {
+          border: 1px solid transparent;
+          border-radius: 4px;
+          display: flex;
+          flex-direction: column;
+          font-size: 0.875rem;
+          gap: 4px;
+          padding: 0.5rem;
+        }
+
+        .history-item.compared {
+          border-color: var(--color-accent);
+        }
+
+        .history-item-header {
+          display: flex;
+          flex-direction: column;
+        }
+
+        .history-item-date {
+          color: light-dark(#787878, #c8c8c8);
+          font-size: 0.75rem;
+        }
+
+        .history-item-actions {
+          align-items: center;
+          display: flex;
+          flex-wrap: wrap;
+          gap: 6px;
+
+          label {
+            align-items: center;
+            display: flex;
+            gap: 2px;
+          }
+
+          button {
+            font-size: 0.75rem;
+            padding: 2px 6px;
+          }
+        }
+
+        .history-diff {
+          display: flex;
+          flex: 1;
+          flex-direction: column;
+          min-height: 0;
+        }
+
+        .history-diff-toolbar {
+          align-items: center;
+          display: flex;
+          font-size: 0.875rem;
+          justify-content: space-between;
+          padding: 6px 12px;
+        }
+      `}</style>
+    </div>
+  );
+}
@@ -0,0 +1,221 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {useTranslation} from '@/lib/i18n';
+import {SpecRequirement, StructuredSpec} from '@/lib/specStructure';
+
+interface SpecEditorProps {
+  value: StructuredSpec;
+  onChange: (value: StructuredSpec) => void;
+}
+
+// Form for editing a spec as an intro and a list of numbered requirements
+// that can be added, removed, reordered and switched off
+export default function SpecEditor({value, onChange}: SpecEditorProps) {
+  const {t} = useTranslation();
+  const {requirements} = value;
+
+  const setRequirements = (requirements: SpecRequirement[]) =>
+    onChange({...value, requirements});
+
+  const updateRequirement = (id: string, update: Partial<SpecRequirement>) =>
+    setRequirements(
+      requirements.map((requirement) =>
+        requirement.id === id ? {...requirement, ...update} : requirement,
+      ),
+    );
+
+  const moveRequirement = (index: number, offset: number) => {
+    const moved = [...requirements];
+    [moved[index], moved[index + offset]] = [
+      moved[index + offset],
+      moved[index],
+    ];
+    setRequirements(moved);
+  };
+
+  // Requirements are numbered as they will be in the spec, skipping the ones
+  // that are switched off
+  const enabledIds = requirements
+    .filter((requirement) => requirement.enabled)
+    .map((requirement) => requirement.id);
+
+  return (
+    <div className="spec-editor">
+      <label>
+        {t('specEditor.intro')}
+        <textarea
+          rows={6}
+          value={value.intro}
+          onChange={(e) => onChange({...value, intro: e.target.value})}
+        />
+      </label>
+
+      <div className="spec-requirements">
+        <span>{t('specEditor.requirements')}</span>
+        {requirements.map((requirement, index) => (
+          <div
+            key={requirement.id}
+            className={`spec-requirement ${requirement.enabled ? '' : 'disabled'}`}>
+            <input
+              type="checkbox"
+              checked={requirement.enabled}
+              title={
+                requirement.enabled
+                  ? t('specEditor.exclude')
+                  : t('specEditor.include')
+              }
+              onChange={(e) =>
+                updateRequirement(requirement.id, {enabled: e.target.checked})
+              }
+            />
+            <span className="spec-requirement-number">
+              {requirement.enabled
+                ? `${enabledIds.indexOf(requirement.id) + 1}.`
+                : '–'}
+            </span>
+            <textarea
+              rows={Math.min(6, Math.ceil(requirement.text.length / 80) + 1)}
+              value={requirement.text}
+              placeholder={t('specEditor.placeholder')}
+              onChange={(e) =>
+                updateRequirement(requirement.id, {text: e.target.value})
+              }
+            />
+            <div className="spec-requirement-actions">
+              <button
+                title={t('specEditor.moveUp')}
+                disabled={index === 0}
+                onClick={() => moveRequirement(index, -1)}>
+                arrow_upward
+              </button>
+              <button
+                title={t('specEditor.moveDown')}
+                disabled={index === requirements.length - 1}
+                onClick={() => moveRequirement(index, 1)}>
+                arrow_downward
+              </button>
+              <button
+                title={t('specEditor.remove')}
+                onClick={() =>
+                  setRequirements(
+                    requirements.filter(({id}) => id !== requirement.id),
+                  )
+                }>
+                delete
+              </button>
+            </div>
+          </div>
+        ))}
+        <button
+          className="button-secondary spec-requirement-add"
+          onClick={() =>
+            setRequirements([
+              ...requirements,
+              {id: crypto.randomUUID(), text: '', enabled: true},
+            ])
+          }>
+          {t('specEditor.add')}
+        </button>
+      </div>
+
+      <label>
+        {t('specEditor.outro')}
+        <textarea
+          rows={3}
+          value={value.outro}
+          onChange={(e) => onChange({...value, outro: e.target.value})}
+        />
+      </label>
+
+      {value.addendum.trim() && (
+        <details className="spec-addendum">
+          <summary>{t('specEditor.addendum')}</summary>
+          <p>{value.addendum.trim()}</p>
+        </details>
+      )}
+
+      <style>{`
+        .spec-editor {
+          display: flex;
+          flex: 1;
+          flex-direction: column;
+          gap: 1rem;
+          overflow-y: auto;
+          padding: 1rem 2rem;
+
+          label,
+          .spec-requirements {
+            display: flex;
+            flex-direction: column;
+            font-size: 0.875rem;
+            gap: 0.25rem;
+          }
+
+          textarea {
+            font-family: var(--font-technical);
+            font-size: 0.8125rem;
+            resize: vertical;
+          }
+        }
+
+        .spec-requirement {
+          align-items: flex-start;
+          display: flex;
+          gap: 0.5rem;
+
+          textarea {
+            flex: 1;
+          }
+        }
+
+        .spec-requirement.disabled textarea {
+          opacity: 0.5;
+        }
+
+        .spec-requirement-number {
+          font-family: var(--font-technical);
+          min-width: 1.5rem;
+          padding-top: 2px;
+          text-align: end;
+        }
+
+        .spec-requirement-actions {
+          display: flex;
+
+          button {
+            background: none;
+            border: none;
+            color: inherit;
+            cursor: pointer;
+            font-family: var(--font-symbols);
+            font-size: 1.125rem;
+            padding: 0 2px;
+          }
+
+          button:disabled {
+            cursor: default;
+            opacity: 0.3;
+          }
+        }
+
+        .spec-requirement-add {
+          align-self: flex-start;
+          margin-top: 0.25rem;
+        }
+
+        .spec-addendum {
+          color: light-dark(#787878, #c8c8c8);
+          font-size: 0.8125rem;
+
+          p {
+            white-space: pre-wrap;
+          }
+        }
+      `}</style>
+    </div>
+  );
+}
@@ -0,0 +1,214 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import Editor from '@monaco-editor/react';
+import {useState} from 'react';
+
+import SpecEditor from '@/components/SpecEditor';
+import {getGenerationSettings} from '@/lib/generationSettings';
+import {useTranslation} from '@/lib/i18n';
+import {
+  applyOutputLanguage,
+  getSelectedPromptTemplate,
+  listPromptTemplates,
+  renderCodeAddendum,
+} from '@/lib/promptTemplates';
+import {
+  StructuredSpec,
+  assembleSpec,
+  parseStructuredSpec,
+} from '@/lib/specStructure';
+
+interface SpecPanelProps {
+  spec: string;
+  // Called with an edited spec that differs from the current one
+  onSave: (spec: string) => void;
+  disabled?: boolean;
+}
+
+// Whether the spec is edited as a form of numbered items or as plain text
+type SpecEditMode = 'form' | 'text';
+
+// The code instructions of every prompt template, for finding the one at the
+// end of a spec. The selected template's is appended to specs without one.
+// Templates are included both with and without the output language, which
+// may have changed since the spec was generated.
+const getSpecAddenda = () => {
+  const {outputLanguage} = getGenerationSettings();
+  return [getSelectedPromptTemplate(), ...listPromptTemplates()].flatMap(
+    (template) => [
+      renderCodeAddendum(applyOutputLanguage(template, outputLanguage)),
+      renderCodeAddendum(template),
+    ],
+  );
+};
+
+// A generated spec, which can be edited as a form or as text
+export default function SpecPanel({spec, onSave, disabled}: SpecPanelProps) {
+  const {t} = useTranslation();
+  const [isEditing, setIsEditing] = useState(false);
+  const [editedSpec, setEditedSpec] = useState('');
+  const [mode, setMode] = useState<SpecEditMode>('form');
+  const [draft, setDraft] = useState<StructuredSpec>();
+
+  const handleEdit = () => {
+    setEditedSpec(spec);
+    setDraft(parseStructuredSpec(spec, getSpecAddenda()));
+    setIsEditing(true);
+  };
+
+  // Carry the edits so far over when switching between the form and text
+  const handleModeChange = (newMode: SpecEditMode) => {
+    if (newMode === 'text' && draft) {
+      setEditedSpec(assembleSpec(draft));
+    } else if (newMode === 'form') {
+      setDraft(parseStructuredSpec(editedSpec, getSpecAddenda()));
+    }
+    setMode(newMode);
+  };
+
+  const handleSave = () => {
+    const trimmedEditedSpec = (
+      mode === 'form' && draft ? assembleSpec(draft) : editedSpec
+    ).trim();
+    setIsEditing(false);
+    setEditedSpec('');
+
+    // Only save if the spec has actually changed. The form tidies the spec's
+    // formatting, which alone is not a change.
+    if (
+      trimmedEditedSpec !== spec &&
+      !(
+        mode === 'form' &&
+        trimmedEditedSpec ===
+          assembleSpec(parseStructuredSpec(spec, getSpecAddenda())).trim()
+      )
+    ) {
+      onSave(trimmedEditedSpec);
+    }
+  };
+
+  const handleCancel = () => {
+    setIsEditing(false);
+    setEditedSpec('');
+  };
+
+  return (
+    <div style={{height: '100%', display: 'flex', flexDirection: 'column'}}>
+      {isEditing ? (
+        <>
+          <div className="spec-edit-modes">
+            {(
+              [
+                ['form', t('spec.form')],
+                ['text', t('spec.freeText')],
+              ] as const
+            ).map(([option, label]) => (
+              <button
+                key={option}
+                className={option === mode ? 'selected' : ''}
+                onClick={() => handleModeChange(option)}>
+                {label}
+              </button>
+            ))}
+          </div>
+          {mode === 'form' && draft ? (
+            <SpecEditor value={draft} onChange={setDraft} />
+          ) : (
+            <Editor
+              height="100%"
+              defaultLanguage="text"
+              value={editedSpec}
+              onChange={(value) => setEditedSpec(value || '')}
+              theme="light"
+              options={{
+                minimap: {enabled: false},
+                fontSize: 14,
+                wordWrap: 'on',
+                lineNumbers: 'off',
+              }}
+            />
+          )}
+          <div className="spec-actions">
+            <button
+              onClick={handleSave}
+              className="button-primary"
+              disabled={disabled}>
+              {t('spec.save')}
+            </button>
+            <button onClick={handleCancel} className="button-secondary">
+              {t('common.cancel')}
+            </button>
+          </div>
+        </>
+      ) : (
+        <>
+          <div
+            dir="auto"
+            style={{
+              whiteSpace: 'pre-wrap',
+              fontFamily: 'var(--font-technical)',
+              lineHeight: 1.75,
+              flex: 1,
+              overflow: 'auto',
+              padding: '1rem 2rem',
+              maskImage:
+                'linear-gradient(to bottom, black 95%, transparent 100%)',
+              WebkitMaskImage:
+                'linear-gradient(to bottom, black 95%, transparent 100%)',
+            }}>
+            {spec}
+          </div>
+          <div className="spec-actions">
+            <button
+              style={{display: 'flex', alignItems: 'center', gap: '5px'}}
+              onClick={handleEdit}
+              className="button-primary"
+              disabled={disabled}>
+              {t('spec.edit')}{' '}
+              <span
+                style={{
+                  fontFamily: 'var(--font-symbols)',
+                  fontSize: '1.125rem',
+                }}>
+                edit
+              </span>
+            </button>
+          </div>
+        </>
+      )}
+
+      <style>{`
+        .spec-edit-modes {
+          display: flex;
+          gap: 4px;
+          padding: 0 2rem 0.5rem;
+
+          button {
+            background: none;
+            border: 1px solid light-dark(#ddd, #7a7a7a);
+            border-radius: 12px;
+            color: inherit;
+            cursor: pointer;
+            font-size: 12px;
+            padding: 2px 10px;
+          }
+
+          button.selected {
+            border-color: var(--color-accent);
+            font-weight: bold;
+          }
+        }
+
+        .spec-actions {
+          display: flex;
+          gap: 6px;
+          padding: 0 1rem 1rem;
+        }
+      `}</style>
+    </div>
+  );
+}
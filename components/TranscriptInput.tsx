@@ -0,0 +1,177 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {useTranslation} from '@/lib/i18n';
+import {
+  Transcript,
+  detectTranscriptFormat,
+  parseSubtitles,
+} from '@/lib/transcripts';
+import {useRef, useState} from 'react';
+
+interface TranscriptInputProps {
+  onSubmit: (transcript: Transcript) => void;
+  onClose: () => void;
+}
+
+// Dialog for pasting a transcript or loading a subtitle file to generate an
+// app from, in place of a video
+export default function TranscriptInput({
+  onSubmit,
+  onClose,
+}: TranscriptInputProps) {
+  const {t} = useTranslation();
+  const [title, setTitle] = useState('');
+  const [text, setText] = useState('');
+  const [fileName, setFileName] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const format = detectTranscriptFormat(text, fileName);
+  const cueCount = format === 'text' ? 0 : parseSubtitles(text).length;
+  const isValid = text.trim() && (format === 'text' || cueCount > 0);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow the same file to be loaded again
+    if (!file) return;
+
+    try {
+      setText(await file.text());
+      setFileName(file.name);
+      if (!title.trim()) {
+        setTitle(file.name.replace(/\.[^.]+$/, ''));
+      }
+    } catch (error) {
+      alert(
+        error instanceof Error ? error.message : t('transcript.readFailed'),
+      );
+    }
+  };
+
+  return (
+    <div className="modal-backdrop" onClick={onClose}>
+      <div
+        className="modal transcript-input"
+        role="dialog"
+        aria-label={t('transcript.title')}
+        onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>{t('transcript.title')}</h2>
+          <button
+            className="modal-close"
+            onClick={onClose}
+            title={t('common.close')}>
+            close
+          </button>
+        </div>
+
+        <div className="transcript-input-body">
+          <p>{t('transcript.intro')}</p>
+          <label>
+            {t('transcript.titleLabel')}
+            <input
+              type="text"
+              placeholder={t('transcript.defaultTitle')}
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+            />
+          </label>
+          <label>
+            {t('transcript.text')}
+            <textarea
+              rows={12}
+              placeholder={t('transcript.placeholder')}
+              value={text}
+              onChange={(e) => {
+                setText(e.target.value);
+                setFileName('');
+              }}
+            />
+          </label>
+          <div className="transcript-input-file">
+            <button
+              className="button-secondary"
+              onClick={() => fileInputRef.current?.click()}>
+              {t('transcript.load')}
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".srt,.vtt,.txt,text/plain,text/vtt"
+              onChange={handleFileChange}
+              hidden
+            />
+            {text.trim() && (
+              <span>
+                {format === 'text'
+                  ? t('transcript.formats.text')
+                  : t(`transcript.formats.${format}`, {count: cueCount})}
+              </span>
+            )}
+          </div>
+        </div>
+
+        <div className="modal-actions">
+          <button className="button-secondary" onClick={onClose}>
+            {t('common.cancel')}
+          </button>
+          <button
+            className="button-primary"
+            disabled={!isValid}
+            onClick={() =>
+              onSubmit({
+                title: title.trim() || t('transcript.defaultTitle'),
+                format,
+                text,
+              })
+            }>
+            {t('transcript.generate')}
+          </button>
+        </div>
+      </div>
+
+      <style>{`
+        .transcript-input {
+          width: 640px;
+        }
+
+        .transcript-input-body {
+          display: flex;
+          flex-direction: column;
+          gap: 0.75rem;
+          overflow-y: auto;
+          padding: 1rem;
+
+          p {
+            font-size: 0.875rem;
+            margin: 0;
+          }
+
+          label {
+            display: flex;
+            flex-direction: column;
+            font-size: 0.875rem;
+            gap: 0.25rem;
+          }
+
+          textarea {
+            font-family: var(--font-technical);
+            font-size: 0.8125rem;
+            resize: vertical;
+          }
+        }
+
+        .transcript-input-file {
+          align-items: center;
+          color: light-dark(#787878, #c8c8c8);
+          display: flex;
+          font-size: 0.875rem;
+          gap: 0.5rem;
+        }
+      `}</style>
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {useTranslation} from '@/lib/i18n';
+import {UsageEntry} from '@/lib/types';
+import {
+  formatCost,
+  formatTokenCount,
+  getEntryCost,
+  getPriceTable,
+  getUsageTotals,
+} from '@/lib/usage';
+
+interface UsageSummaryProps {
+  label: string;
+  entries: UsageEntry[];
+}
+
+// Total tokens and estimated cost, broken down by stage and model on hover
+export default function UsageSummary({label, entries}: UsageSummaryProps) {
+  const {t, locale} = useTranslation();
+  const prices = getPriceTable();
+  const totals = getUsageTotals(entries, prices);
+  const tokens = totals.promptTokens + totals.videoTokens + totals.outputTokens;
+
+  const breakdown = entries.map((entry) => {
+    const cost = getEntryCost(entry, prices);
+    return t('usage.breakdown', {
+      stage: t(`stages.${entry.stage}`),
+      model: entry.modelName,
+      requests: entry.requests.toLocaleString(locale.code),
+      prompt: entry.promptTokens.toLocaleString(locale.code),
+      video: entry.videoTokens.toLocaleString(locale.code),
+      output: entry.outputTokens.toLocaleString(locale.code),
+      cost: cost === undefined ? t('usage.noPrice') : formatCost(cost),
+    });
+  });
+
+  return (
+    <div
+      className="usage-summary"
+      title={breakdown.join('\n') || t('usage.noRequests')}>
+      {t('usage.summary', {
+        label,
+        tokens: formatTokenCount(tokens),
+        cost: formatCost(totals.cost),
+      })}
+      {totals.unpricedModels.length > 0 && '+'}
+      <style>{`
+        .usage-summary {
+          color: light-dark(#787878, #c8c8c8);
+          cursor: default;
+          font-family: var(--font-technical);
+          font-size: 0.75rem;
+          white-space: nowrap;
+        }
+      `}</style>
+    </div>
+  );
+}
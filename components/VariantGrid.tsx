@@ -0,0 +1,275 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {getGenerationSettings} from '@/lib/generationSettings';
+import {useTranslation} from '@/lib/i18n';
+import {HTMLDiagnostic} from '@/lib/parse';
+import {CodeRequest, generateCode} from '@/lib/pipeline';
+import {useState} from 'react';
+
+// One of several versions of the code generated from the same spec
+export interface Variant {
+  id: string;
+  status: 'loading' | 'ready' | 'error';
+  code: string;
+  diagnostics: HTMLDiagnostic[];
+  // How many characters of the response have arrived
+  progress: number;
+  // Shown while loading, e.g. when a failed request is being retried
+  note?: string;
+  error?: string;
+}
+
+// How many variants can be generated at once
+export const VARIANT_COUNTS = [2, 3, 4];
+
+// How many code variants to generate at once by default
+const DEFAULT_VARIANT_COUNT = 3;
+
+interface VariantOptions {
+  // Start a variants request, cancelling the previous one
+  startRequest: () => AbortSignal;
+  getRetryNote: (attempt: number, maxRetries: number, error: unknown) => string;
+  onUsage: CodeRequest['onUsage'];
+  // Called with the code of each variant as it finishes, e.g. to record it
+  onReady: (code: string) => void;
+}
+
+// Code variants generated from the same spec and the state of generating them
+export function useVariants({
+  startRequest,
+  getRetryNote,
+  onUsage,
+  onReady,
+}: VariantOptions) {
+  const {t} = useTranslation();
+  const [variants, setVariants] = useState<Variant[]>([]);
+  const [count, setCount] = useState(DEFAULT_VARIANT_COUNT);
+
+  // Generate several versions of the code from a spec in parallel
+  const generate = async (spec: string) => {
+    const newVariants: Variant[] = Array.from({length: count}, () => ({
+      id: crypto.randomUUID(),
+      status: 'loading',
+      code: '',
+      diagnostics: [],
+      progress: 0,
+    }));
+    setVariants(newVariants);
+    const signal = startRequest();
+
+    const updateVariant = (id: string, update: Partial<Variant>) =>
+      setVariants((prev) =>
+        prev.map((variant) =>
+          variant.id === id ? {...variant, ...update} : variant,
+        ),
+      );
+
+    await Promise.all(
+      newVariants.map(async ({id}) => {
+        try {
+          const {code, diagnostics} = await generateCode({
+            spec,
+            settings: getGenerationSettings(),
+            signal,
+            onUsage,
+            onRetry: (attempt, maxRetries, error) =>
+              updateVariant(id, {
+                progress: 0,
+                note: getRetryNote(attempt, maxRetries, error),
+              }),
+            onProgress: (textSoFar) =>
+              updateVariant(id, {progress: textSoFar.length, note: undefined}),
+          });
+          updateVariant(id, {status: 'ready', code, diagnostics});
+          onReady(code);
+        } catch (err) {
+          console.error('An error occurred while generating a variant:', err);
+          updateVariant(id, {
+            status: 'error',
+            error: err instanceof Error ? err.message : t('error.unknown'),
+          });
+        }
+      }),
+    );
+  };
+
+  const clear = () => setVariants([]);
+
+  return {variants, count, setCount, generate, clear};
+}
+
+interface VariantGridProps {
+  variants: Variant[];
+  count: number;
+  onCountChange: (count: number) => void;
+  onGenerate: () => void;
+  onCancel: () => void;
+  // Make a variant the app's code
+  onPromote: (variant: Variant) => void;
+  disabled?: boolean;
+}
+
+// Live previews of code variants generated in parallel, to pick the best from
+export default function VariantGrid({
+  variants,
+  count,
+  onCountChange,
+  onGenerate,
+  onCancel,
+  onPromote,
+  disabled,
+}: VariantGridProps) {
+  const {t, locale} = useTranslation();
+  const isGenerating = variants.some((variant) => variant.status === 'loading');
+
+  return (
+    <div className="variants">
+      <div className="variants-toolbar">
+        <label>
+          {t('tabs.variants')}{' '}
+          <select
+            value={count}
+            disabled={isGenerating}
+            onChange={(e) => onCountChange(Number(e.target.value))}>
+            {VARIANT_COUNTS.map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+        </label>
+        {isGenerating ? (
+          <button className="button-secondary" onClick={onCancel}>
+            {t('common.cancel')}
+          </button>
+        ) : (
+          <button
+            className="button-primary"
+            disabled={disabled}
+            onClick={onGenerate}>
+            {t('variants.generate', {count})}
+          </button>
+        )}
+      </div>
+
+      {variants.length === 0 ? (
+        <div className="variants-empty">{t('variants.empty')}</div>
+      ) : (
+        <div className="variants-grid">
+          {variants.map((variant, index) => (
+            <div key={variant.id} className="variant">
+              <div className="variant-header">
+                <strong>{t('variants.title', {number: index + 1})}</strong>
+                <button
+                  className="button-secondary"
+                  disabled={variant.status !== 'ready' || isGenerating}
+                  onClick={() => onPromote(variant)}>
+                  {t('variants.use')}
+                </button>
+              </div>
+              {variant.status === 'ready' ? (
+                <iframe
+                  className="variant-preview"
+                  srcDoc={variant.code}
+                  title={`variant-${index + 1}`}
+                  sandbox="allow-scripts"
+                />
+              ) : (
+                <div className={`variant-status ${variant.status}`}>
+                  {variant.status === 'loading'
+                    ? variant.note ||
+                      t('variants.progress', {
+                        characters: variant.progress.toLocaleString(
+                          locale.code,
+                        ),
+                      })
+                    : variant.error}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <style>{`
+        .variants {
+          display: flex;
+          flex-direction: column;
+          height: 100%;
+        }
+
+        .variants-toolbar {
+          align-items: center;
+          border-bottom: 1px solid light-dark(#ddd, #7a7a7a);
+          display: flex;
+          font-size: 0.875rem;
+          gap: 0.5rem;
+          justify-content: space-between;
+          padding: 0.5rem 1rem;
+        }
+
+        .variants-empty {
+          align-items: center;
+          color: light-dark(#787878, #c8c8c8);
+          display: flex;
+          flex: 1;
+          justify-content: center;
+          padding: 0 2rem;
+          text-align: center;
+        }
+
+        .variants-grid {
+          display: grid;
+          flex: 1;
+          gap: 0.5rem;
+          grid-auto-rows: minmax(240px, 1fr);
+          grid-template-columns: repeat(auto-fit, minmax(280px, 1fr));
+          overflow-y: auto;
+          padding: 0.5rem;
+        }
+
+        .variant {
+          border: 1px solid light-dark(#ddd, #7a7a7a);
+          border-radius: 8px;
+          display: flex;
+          flex-direction: column;
+          overflow: hidden;
+        }
+
+        .variant-header {
+          align-items: center;
+          border-bottom: 1px solid light-dark(#ddd, #7a7a7a);
+          display: flex;
+          font-size: 0.875rem;
+          justify-content: space-between;
+          padding: 0.25rem 0.5rem;
+        }
+
+        .variant-preview {
+          border: none;
+          flex: 1;
+          width: 100%;
+        }
+
+        .variant-status {
+          align-items: center;
+          color: light-dark(#787878, #c8c8c8);
+          display: flex;
+          flex: 1;
+          font-size: 0.875rem;
+          justify-content: center;
+          padding: 1rem;
+          text-align: center;
+        }
+
+        .variant-status.error {
+          color: var(--color-error);
+        }
+      `}</style>
+    </div>
+  );
+}
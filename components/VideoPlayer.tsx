@@ -0,0 +1,62 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {useTranslation} from '@/lib/i18n';
+import {formatTimestamp} from '@/lib/timestamps';
+import {isCueInSegment} from '@/lib/transcripts';
+import {VideoSegment} from '@/lib/types';
+import {getVideoSource} from '@/lib/videoSources';
+
+interface VideoPlayerProps {
+  url: string;
+  // Cue the player to this part of the video
+  segment?: VideoSegment;
+}
+
+// Plays a video from any supported source, or shows a transcript
+export default function VideoPlayer({url, segment}: VideoPlayerProps) {
+  const {t} = useTranslation();
+  const embed = getVideoSource(url)?.getEmbed(url, segment) ?? {
+    type: 'unavailable',
+    reason: 'unsupported',
+  };
+
+  switch (embed.type) {
+    case 'iframe':
+      return (
+        <iframe
+          className="video-iframe"
+          src={embed.src}
+          allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
+          allowFullScreen></iframe>
+      );
+    case 'video':
+      return <video className="video-iframe" src={embed.src} controls />;
+    case 'transcript':
+      // Subtitles outside the segment are dimmed
+      return (
+        <div className="video-transcript">
+          {embed.cues.length ? (
+            embed.cues.map((cue, index) => (
+              <p
+                key={index}
+                className={isCueInSegment(cue, segment) ? '' : 'outside'}>
+                <span>{formatTimestamp(cue.start)}</span> {cue.text}
+              </p>
+            ))
+          ) : (
+            <p>{embed.text}</p>
+          )}
+        </div>
+      );
+    default:
+      return (
+        <div className="video-placeholder">
+          {t(`video.unavailable.${embed.reason}`)}
+        </div>
+      );
+  }
+}
@@ -0,0 +1,28 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {getVideoSource} from '@/lib/videoSources';
+
+interface VideoThumbnailProps {
+  url: string;
+  title: string;
+}
+
+// Thumbnail image of a video, or an icon for sources without thumbnails and
+// for transcripts
+export default function VideoThumbnail({url, title}: VideoThumbnailProps) {
+  const source = getVideoSource(url);
+  const thumbnailUrl = source?.getThumbnailUrl(url);
+
+  return thumbnailUrl ? (
+    // eslint-disable-next-line @next/next/no-img-element
+    <img src={thumbnailUrl} alt={title} className="thumbnail" />
+  ) : (
+    <div className="thumbnail thumbnail-icon" title={title}>
+      {source?.kind === 'transcript' ? 'subtitles' : 'movie'}
+    </div>
+  );
+}
@@ -4,7 +4,8 @@
 */
 /* tslint:disable */
 
-import {Example} from '@/lib/types';
+import {Locale} from '@/lib/i18n';
+import {Example, SavedApp} from '@/lib/types';
 import {type Dispatch, type SetStateAction, createContext} from 'react';
 
 export interface Data {
@@ -12,6 +13,19 @@ export interface Data {
   setExamples: Dispatch<SetStateAction<Example[]>>;
   defaultExample: Example;
   isLoading: boolean;
+  // Generated apps kept in the local library
+  savedApps: SavedApp[];
+  saveApp: (app: Omit<SavedApp, 'createdAt' | 'updatedAt'>) => Promise<void>;
+  renameApp: (id: string, title: string) => Promise<void>;
+  deleteApp: (id: string) => Promise<void>;
 }
 
 export const DataContext = createContext<Data>(null);
+
+// The language the host UI is shown in
+export interface LocaleState {
+  locale: Locale;
+  setLocale: (code: string) => void;
+}
+
+export const LocaleContext = createContext<LocaleState | null>(null);
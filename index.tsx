@@ -5,14 +5,22 @@
 /* tslint:disable */
 
 import App from '@/App';
-import {DataContext} from '@/context';
+import {DataContext, LocaleContext} from '@/context';
+import {LOCALES, getLocale, saveLocale} from '@/lib/i18n';
+import {
+  deleteSavedApp,
+  listSavedApps,
+  renameSavedApp,
+  saveApp as saveAppToLibrary,
+} from '@/lib/library';
 import React from 'react';
 import ReactDOM from 'react-dom/client';
-import {Example} from './lib/types';
+import {Example, SavedApp} from './lib/types';
 
 function DataProvider({children}) {
-  const [examples, setExamples] = React.useState([]);
+  const [examples, setExamples] = React.useState<Example[]>([]);
   const [isLoading, setIsLoading] = React.useState(true);
+  const [savedApps, setSavedApps] = React.useState<SavedApp[]>([]);
 
   React.useEffect(() => {
     setIsLoading(true);
@@ -22,8 +30,33 @@ function DataProvider({children}) {
         setExamples(fetchedData);
         setIsLoading(false);
       });
+
+    listSavedApps()
+      .then(setSavedApps)
+      .catch((error) => console.error('Failed to load saved apps:', error));
   }, []);
 
+  // Replace (or add) an app in the library state with its stored version
+  const updateSavedApps = (saved: SavedApp) =>
+    setSavedApps((apps) =>
+      apps.some((app) => app.id === saved.id)
+        ? apps.map((app) => (app.id === saved.id ? saved : app))
+        : [saved, ...apps],
+    );
+
+  const saveApp = async (app: Omit<SavedApp, 'createdAt' | 'updatedAt'>) => {
+    updateSavedApps(await saveAppToLibrary(app));
+  };
+
+  const renameApp = async (id: string, title: string) => {
+    updateSavedApps(await renameSavedApp(id, title));
+  };
+
+  const deleteApp = async (id: string) => {
+    await deleteSavedApp(id);
+    setSavedApps((apps) => apps.filter((app) => app.id !== id));
+  };
+
   const empty = {title: '', url: '', spec: '', code: ''};
 
   const value = {
@@ -31,14 +64,44 @@ function DataProvider({children}) {
     isLoading,
     setExamples,
     defaultExample: examples ? examples[0] : empty,
+    savedApps,
+    saveApp,
+    renameApp,
+    deleteApp,
   };
 
   return <DataContext.Provider value={value}>{children}</DataContext.Provider>;
 }
 
+// Provides the UI locale, and lays the page out in its direction
+function LocaleProvider({children}: {children: React.ReactNode}) {
+  const [locale, setLocaleState] = React.useState(getLocale);
+
+  React.useEffect(() => {
+    document.documentElement.lang = locale.code;
+    document.documentElement.dir = locale.dir;
+  }, [locale]);
+
+  const setLocale = (code: string) => {
+    const next = LOCALES.find((other) => other.code === code);
+    if (next) {
+      saveLocale(code);
+      setLocaleState(next);
+    }
+  };
+
+  return (
+    <LocaleContext.Provider value={{locale, setLocale}}>
+      {children}
+    </LocaleContext.Provider>
+  );
+}
+
 const root = ReactDOM.createRoot(document.getElementById('root'));
 root.render(
-  <DataProvider>
-    <App />
-  </DataProvider>,
+  <LocaleProvider>
+    <DataProvider>
+      <App />
+    </DataProvider>
+  </LocaleProvider>,
 );
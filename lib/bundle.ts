@@ -0,0 +1,133 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {QUIZ_RESPONSE_SCHEMA} from '@/lib/prompts';
+import {JSONSchema, validateJSON} from '@/lib/schema';
+import {SavedApp} from '@/lib/types';
+
+const BUNDLE_FORMAT = 'video-to-learning-app';
+const BUNDLE_VERSION = 1;
+
+// The parts of an app that travel in a bundle
+export type BundledApp = Pick<
+  SavedApp,
+  | 'title'
+  | 'url'
+  | 'spec'
+  | 'code'
+  | 'metadata'
+  | 'revisions'
+  | 'chat'
+  | 'usage'
+  | 'quiz'
+>;
+
+// A self-contained file describing a generated app
+export interface AppBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  app: BundledApp;
+}
+
+const BUNDLE_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    format: {type: 'string', enum: [BUNDLE_FORMAT]},
+    version: {type: 'integer'},
+    app: {
+      type: 'object',
+      properties: {
+        title: {type: 'string'},
+        url: {type: 'string'},
+        spec: {type: 'string', minLength: 1},
+        code: {type: 'string', minLength: 1},
+        metadata: {type: 'object'},
+        revisions: {type: 'array', items: {type: 'object'}},
+        chat: {type: 'array', items: {type: 'object'}},
+        usage: {type: 'array', items: {type: 'object'}},
+        quiz: QUIZ_RESPONSE_SCHEMA,
+      },
+      required: ['title', 'url', 'spec', 'code'],
+    },
+  },
+  required: ['format', 'version', 'app'],
+};
+
+// Serialize an app as a bundle file
+export function createAppBundle(app: BundledApp): string {
+  const bundle: AppBundle = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    app: {
+      title: app.title,
+      url: app.url,
+      spec: app.spec,
+      code: app.code,
+      metadata: app.metadata,
+      revisions: app.revisions,
+      chat: app.chat,
+      usage: app.usage,
+      quiz: app.quiz,
+    },
+  };
+  return JSON.stringify(bundle, null, 2);
+}
+
+/**
+ * Read the app out of a bundle file.
+ *
+ * @param text - The contents of the bundle file.
+ * @returns The bundled app.
+ * @throws {Error} If the file is not a valid bundle.
+ */
+export function parseAppBundle(text: string): BundledApp {
+  let bundle: unknown;
+  try {
+    bundle = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not a valid app bundle (it is not JSON).');
+  }
+
+  const issues = validateJSON(bundle, BUNDLE_SCHEMA, 'bundle');
+  if (issues.length > 0) {
+    throw new Error(`The file is not a valid app bundle: ${issues.join('; ')}`);
+  }
+
+  const {version, app} = bundle as AppBundle;
+  if (version > BUNDLE_VERSION) {
+    throw new Error(
+      'The bundle was created by a newer version of the app and cannot be imported.',
+    );
+  }
+
+  return app;
+}
+
+// Turn an app title into a safe file name, keeping letters and digits in any
+// script
+export const getFileName = (title: string, extension: string) =>
+  `${
+    title
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}]+/gu, '-')
+      .replace(/^-+|-+$/g, '') || 'app'
+  }.${extension}`;
+
+// Have the browser download some text as a file
+export function downloadFile(
+  fileName: string,
+  contents: string,
+  mimeType: string,
+) {
+  const url = URL.createObjectURL(new Blob([contents], {type: mimeType}));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
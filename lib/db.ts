@@ -0,0 +1,75 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+const DB_NAME = 'video-to-learning';
+const DB_VERSION = 2;
+
+export const APPS_STORE = 'apps';
+export const GENERATION_CACHE_STORE = 'generationCache';
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+// Open (and create or upgrade, if needed) the app's IndexedDB database
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(APPS_STORE)) {
+          db.createObjectStore(APPS_STORE, {keyPath: 'id'});
+        }
+        // Added in version 2
+        if (!db.objectStoreNames.contains(GENERATION_CACHE_STORE)) {
+          const cache = db.createObjectStore(GENERATION_CACHE_STORE, {
+            keyPath: 'key',
+          });
+          cache.createIndex('lastUsedAt', 'lastUsedAt');
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a failed open to be retried
+    databasePromise.catch(() => (databasePromise = null));
+  }
+  return databasePromise;
+}
+
+// Wrap an IndexedDB request in a promise
+export const promisifyRequest = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Run an operation against a single object store in its own transaction.
+ *
+ * @param storeName - The object store to operate on.
+ * @param mode - Whether the transaction may write to the store.
+ * @param operation - Issues requests against the store and resolves with the
+ *     result.
+ * @returns The result of the operation, once the transaction has completed.
+ */
+export async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => Promise<T>,
+): Promise<T> {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeName, mode);
+  const completion = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+  const result = await operation(transaction.objectStore(storeName));
+  await completion;
+  return result;
+}
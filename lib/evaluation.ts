@@ -0,0 +1,122 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {SpecItem} from '@/lib/specStructure';
+
+export type SpecItemStatus = 'met' | 'partial' | 'missing';
+
+export interface SpecItemEvaluation extends SpecItem {
+  status: SpecItemStatus;
+  reason: string;
+}
+
+// How the code was judged: by a model reading it, or by looking for each
+// item's key terms in it
+export type EvaluationMethod = 'model' | 'heuristic';
+
+// How well an app's code implements each item of its spec
+export interface AppEvaluation {
+  method: EvaluationMethod;
+  items: SpecItemEvaluation[];
+  createdAt: string;
+  // Only set for evaluations by a model
+  modelName?: string;
+}
+
+// From best to worst. Their labels are in the locale catalogs.
+export const SPEC_ITEM_STATUSES: SpecItemStatus[] = [
+  'met',
+  'partial',
+  'missing',
+];
+
+// Words that say nothing about whether a particular feature was built
+const STOP_WORDS = new Set(
+  `about above after also allow allows based being between both clear clearly
+  corresponding could different each easy either every example explicitly
+  feature features from have include interactive into just learner learners
+  least make more most must need other provide same should show shows simple
+  some such than that their them then there these they this those through
+  user users using well what when where which while will with within would
+  your`.split(/\s+/),
+);
+
+// The distinctive words of a spec item, e.g. "keyboard" and "triads"
+const getKeyTerms = (text: string) => [
+  ...new Set(
+    text
+      .toLowerCase()
+      .match(/\p{L}{4,}/gu)
+      ?.filter((word) => !STOP_WORDS.has(word)) ?? [],
+  ),
+];
+
+// Whether a term appears in the code, allowing for a different ending in the
+// spec, e.g. "triads" or "displayed"
+const containsTerm = (code: string, term: string) => {
+  const stem = term.replace(/(es|s|ed|ing)$/, '');
+  return code.includes(stem.length >= 4 ? stem : term);
+};
+
+/**
+ * Judge each spec item by how many of its key terms appear in the code. This
+ * is fast and needs no model, but only shows whether the code mentions what
+ * the item asks for, not whether it works.
+ *
+ * @param items - The spec items.
+ * @param code - The app's HTML document.
+ * @returns The items with a status and the terms that were not found.
+ */
+export function evaluateWithHeuristics(
+  items: SpecItem[],
+  code: string,
+): SpecItemEvaluation[] {
+  const lowerCaseCode = code.toLowerCase();
+
+  return items.map((item) => {
+    const terms = getKeyTerms(item.text);
+    if (terms.length === 0) {
+      return {
+        ...item,
+        status: 'partial',
+        reason: 'The item has no distinctive terms to look for in the code.',
+      };
+    }
+
+    const missingTerms = terms.filter(
+      (term) => !containsTerm(lowerCaseCode, term),
+    );
+    const coverage = 1 - missingTerms.length / terms.length;
+    return {
+      ...item,
+      status:
+        coverage >= 0.75 ? 'met' : coverage >= 0.4 ? 'partial' : 'missing',
+      reason:
+        `Found ${terms.length - missingTerms.length} of ${terms.length} key terms in the code` +
+        (missingTerms.length
+          ? `; not found: ${missingTerms.join(', ')}.`
+          : '.'),
+    };
+  });
+}
+
+/**
+ * Check that a model's judgement covers every spec item exactly once.
+ *
+ * @param items - The spec items that were sent to the model.
+ * @returns A function that describes each problem with a judgement.
+ */
+export const validateJudgement =
+  (items: SpecItem[]) =>
+  (judgement: {items: Array<{number: number}>}): string[] => {
+    const numbers = judgement.items.map((item) => item.number);
+    return items
+      .filter((item) => numbers.filter((n) => n === item.number).length !== 1)
+      .map(
+        (item) =>
+          `response.items should have exactly one entry for specification ${item.number}`,
+      );
+  };
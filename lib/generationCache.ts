@@ -0,0 +1,144 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {GENERATION_CACHE_STORE, promisifyRequest, withStore} from '@/lib/db';
+import {GenerateTextOptions} from '@/lib/providers/types';
+
+// A model response, stored under a hash of the request that produced it
+export interface CachedGeneration {
+  key: string;
+  text: string;
+  createdAt: string;
+  lastUsedAt: string;
+  // Length of the text, used to enforce the size limit
+  size: number;
+}
+
+// Whether a request reads from and writes to the cache. 'refresh' skips the
+// cached response but stores the new one.
+export type CacheMode = 'use' | 'refresh' | 'off';
+
+// The least recently used responses are evicted beyond these limits
+export const MAX_CACHE_ENTRIES = 200;
+export const MAX_CACHE_SIZE = 20_000_000;
+
+// The cache is unavailable outside the browser, e.g. in Node
+export const isCacheAvailable = () => typeof indexedDB !== 'undefined';
+
+/**
+ * Hash everything about a request that affects the response: the provider,
+ * the model, the prompt, the video and the generation parameters.
+ *
+ * @param providerName - The provider the request is sent to.
+ * @param options - The request.
+ * @returns A hex-encoded SHA-256 hash.
+ */
+export async function getCacheKey(
+  providerName: string,
+  options: GenerateTextOptions,
+): Promise<string> {
+  const request = JSON.stringify([
+    providerName,
+    options.modelName,
+    options.prompt,
+    options.videoUrl ?? null,
+    options.videoMimeType ?? null,
+    options.videoSegment ?? null,
+    options.temperature ?? null,
+    options.maxOutputTokens ?? null,
+    options.safetySettings ?? null,
+    options.responseSchema ?? null,
+  ]);
+  const hash = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(request),
+  );
+  return Array.from(new Uint8Array(hash), (byte) =>
+    byte.toString(16).padStart(2, '0'),
+  ).join('');
+}
+
+// Get a cached response, marking it as recently used
+export async function getCachedGeneration(
+  key: string,
+): Promise<CachedGeneration | null> {
+  return withStore(GENERATION_CACHE_STORE, 'readwrite', async (store) => {
+    const entry = await promisifyRequest<CachedGeneration | undefined>(
+      store.get(key),
+    );
+    if (!entry) {
+      return null;
+    }
+    const used = {...entry, lastUsedAt: new Date().toISOString()};
+    await promisifyRequest(store.put(used));
+    return used;
+  });
+}
+
+// Delete the least recently used entries until the cache is within its limits
+const evictEntries = (store: IDBObjectStore) =>
+  new Promise<void>((resolve, reject) => {
+    let count = 0;
+    let size = 0;
+    const request = store.index('lastUsedAt').openCursor(null, 'prev');
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve();
+        return;
+      }
+      const entry: CachedGeneration = cursor.value;
+      count++;
+      size += entry.size;
+      if (count > MAX_CACHE_ENTRIES || size > MAX_CACHE_SIZE) {
+        cursor.delete();
+      }
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+
+// Store a response, evicting old ones if the cache is full
+export async function putCachedGeneration(
+  key: string,
+  text: string,
+): Promise<void> {
+  // A single response larger than the whole cache is not worth keeping
+  if (text.length > MAX_CACHE_SIZE) return;
+
+  const now = new Date().toISOString();
+  const entry: CachedGeneration = {
+    key,
+    text,
+    createdAt: now,
+    lastUsedAt: now,
+    size: text.length,
+  };
+  await withStore(GENERATION_CACHE_STORE, 'readwrite', async (store) => {
+    await promisifyRequest(store.put(entry));
+    await evictEntries(store);
+  });
+}
+
+// How many responses are cached, and their total size
+export async function getGenerationCacheStats(): Promise<{
+  count: number;
+  size: number;
+}> {
+  const entries = await withStore(GENERATION_CACHE_STORE, 'readonly', (store) =>
+    promisifyRequest<CachedGeneration[]>(store.getAll()),
+  );
+  return {
+    count: entries.length,
+    size: entries.reduce((total, entry) => total + entry.size, 0),
+  };
+}
+
+export async function clearGenerationCache(): Promise<void> {
+  await withStore(GENERATION_CACHE_STORE, 'readwrite', (store) =>
+    promisifyRequest(store.clear()),
+  );
+}
@@ -0,0 +1,162 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {HarmBlockThreshold, HarmCategory, SafetySetting} from '@google/genai';
+import {GenerateTextOptions} from '@/lib/providers/types';
+
+// How the model is called for one stage of the pipeline
+export interface StageSettings {
+  modelName: string;
+  temperature: number;
+  // Leave unset to use the model's own limit
+  maxOutputTokens?: number;
+}
+
+// A safety threshold for each harm category. Categories that are not set use
+// the model's default threshold.
+export type SafetyThresholds = Partial<
+  Record<HarmCategory, HarmBlockThreshold>
+>;
+
+export interface GenerationSettings {
+  // Generating a spec from the video
+  spec: StageSettings;
+  // Generating, refining and fixing the code
+  code: StageSettings;
+  // Generating a quiz from the video
+  quiz: StageSettings;
+  // Judging whether the code implements the spec
+  evaluation: StageSettings;
+  safety: SafetyThresholds;
+  // The language to write specs, quizzes and apps in, in place of the prompt
+  // template's. Empty to use the template's.
+  outputLanguage: string;
+}
+
+export type PipelineStage = 'spec' | 'code' | 'quiz' | 'evaluation';
+
+// In the order they run. Each is labelled by `stages.<stage>` in the locale
+// catalogs.
+export const PIPELINE_STAGES: PipelineStage[] = [
+  'spec',
+  'code',
+  'quiz',
+  'evaluation',
+];
+
+export const DEFAULT_GENERATION_SETTINGS: GenerationSettings = {
+  spec: {modelName: 'gemini-2.0-flash', temperature: 0.75},
+  code: {modelName: 'gemini-2.5-pro', temperature: 0.75},
+  quiz: {modelName: 'gemini-2.5-flash', temperature: 0.5},
+  evaluation: {modelName: 'gemini-2.5-flash', temperature: 0},
+  safety: {},
+  outputLanguage: '',
+};
+
+// Suggested output languages, any other language can also be entered
+export const LANGUAGE_OPTIONS = [
+  'Arabic',
+  'Chinese (Simplified)',
+  'English',
+  'French',
+  'German',
+  'Hindi',
+  'Indonesian',
+  'Japanese',
+  'Portuguese',
+  'Spanish',
+  'Swahili',
+];
+
+// Suggested models, any other model name can also be entered
+export const MODEL_OPTIONS = [
+  'gemini-2.5-pro',
+  'gemini-2.5-flash',
+  'gemini-2.5-flash-lite',
+  'gemini-2.0-flash',
+];
+
+export const MAX_TEMPERATURE = 2;
+
+// The categories that can be given a threshold, with the names they are
+// labelled by in the locale catalogs, under `safety.categories.<name>`
+export const HARM_CATEGORIES = [
+  {category: HarmCategory.HARM_CATEGORY_HARASSMENT, name: 'harassment'},
+  {category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, name: 'hateSpeech'},
+  {
+    category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
+    name: 'sexuallyExplicit',
+  },
+  {
+    category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT,
+    name: 'dangerousContent',
+  },
+] as const;
+
+// From least to most strict, labelled by `safety.thresholds.<name>`
+export const BLOCK_THRESHOLDS = [
+  {threshold: HarmBlockThreshold.BLOCK_NONE, name: 'none'},
+  {threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH, name: 'few'},
+  {threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE, name: 'some'},
+  {threshold: HarmBlockThreshold.BLOCK_LOW_AND_ABOVE, name: 'most'},
+] as const;
+
+const SETTINGS_STORAGE_KEY = 'generationSettings';
+
+// The saved settings, with defaults for anything missing
+export const getGenerationSettings = (): GenerationSettings => {
+  try {
+    const saved: Partial<GenerationSettings> = JSON.parse(
+      localStorage.getItem(SETTINGS_STORAGE_KEY) || '{}',
+    );
+    return {
+      spec: {...DEFAULT_GENERATION_SETTINGS.spec, ...saved.spec},
+      code: {...DEFAULT_GENERATION_SETTINGS.code, ...saved.code},
+      quiz: {...DEFAULT_GENERATION_SETTINGS.quiz, ...saved.quiz},
+      evaluation: {
+        ...DEFAULT_GENERATION_SETTINGS.evaluation,
+        ...saved.evaluation,
+      },
+      safety: {...saved.safety},
+      outputLanguage: saved.outputLanguage ?? '',
+    };
+  } catch {
+    return DEFAULT_GENERATION_SETTINGS;
+  }
+};
+
+export const saveGenerationSettings = (settings: GenerationSettings) =>
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+
+/**
+ * Get the options to call the model with for one stage of the pipeline.
+ *
+ * @param settings - The generation settings.
+ * @param stage - The stage of the pipeline.
+ * @returns The model name, sampling and safety options for the stage.
+ */
+export function getStageOptions(
+  settings: GenerationSettings,
+  stage: PipelineStage,
+): Pick<
+  GenerateTextOptions,
+  'modelName' | 'temperature' | 'maxOutputTokens' | 'safetySettings'
+> {
+  const {modelName, temperature, maxOutputTokens} = settings[stage];
+  const safetySettings = Object.entries(settings.safety).map(
+    ([category, threshold]): SafetySetting => ({
+      category: category as HarmCategory,
+      threshold,
+    }),
+  );
+
+  return {
+    modelName,
+    temperature,
+    maxOutputTokens,
+    safetySettings: safetySettings.length ? safetySettings : undefined,
+  };
+}
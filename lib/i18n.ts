@@ -0,0 +1,95 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {LocaleContext} from '@/context';
+import {ar} from '@/lib/locales/ar';
+import {en} from '@/lib/locales/en';
+import {useContext} from 'react';
+
+type PluralCategory = 'zero' | 'one' | 'two' | 'few' | 'many' | 'other';
+
+// A message, or one for each plural form the locale's language has, chosen by
+// the `count` parameter
+export type Message =
+  string | (Partial<Record<PluralCategory, string>> & {other: string});
+
+export type MessageKey = keyof typeof en;
+
+// The messages of a locale. Messages that are left out are shown in English.
+export type Catalog = Partial<Record<MessageKey, Message>>;
+
+export type MessageParams = Record<string, string | number>;
+
+export interface Locale {
+  // BCP 47 language tag, e.g. "ar"
+  code: string;
+  // The name of the language in that language
+  name: string;
+  dir: 'ltr' | 'rtl';
+  messages: Catalog;
+}
+
+export const LOCALES: Locale[] = [
+  {code: 'en', name: 'English', dir: 'ltr', messages: en},
+  {code: 'ar', name: 'العربية', dir: 'rtl', messages: ar},
+];
+
+const LOCALE_STORAGE_KEY = 'locale';
+
+const findLocale = (code: string) =>
+  LOCALES.find((locale) => locale.code === code.toLowerCase().split('-')[0]);
+
+// The locale chosen by the user, or else the first of the browser's
+// languages that has a catalog, or else English
+export const getLocale = (): Locale =>
+  findLocale(localStorage.getItem(LOCALE_STORAGE_KEY) || '') ??
+  navigator.languages.map(findLocale).find(Boolean) ??
+  LOCALES[0];
+
+export const saveLocale = (code: string) =>
+  localStorage.setItem(LOCALE_STORAGE_KEY, code);
+
+/**
+ * Look up a message in a locale's catalog and fill in its `{parameters}`.
+ *
+ * @param locale - The locale to show the message in.
+ * @param key - The message's key in the catalogs.
+ * @param params - Values for the message's parameters. Messages with plural
+ *     forms are chosen by `count`.
+ * @returns The message.
+ */
+export function translate(
+  locale: Locale,
+  key: MessageKey,
+  params: MessageParams = {},
+): string {
+  const message: Message = locale.messages[key] ?? en[key];
+  const text =
+    typeof message === 'string'
+      ? message
+      : (message[
+          new Intl.PluralRules(locale.code).select(
+            Number(params.count),
+          ) as PluralCategory
+        ] ?? message.other);
+
+  return text.replace(/\{(\w+)\}/g, (placeholder, name) =>
+    name in params ? String(params[name]) : placeholder,
+  );
+}
+
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+// The current locale and a function that translates messages into it
+export const useTranslation = () => {
+  const state = useContext(LocaleContext);
+  if (!state) {
+    throw new Error('useTranslation must be used inside a LocaleProvider.');
+  }
+  const {locale, setLocale} = state;
+  const t: Translate = (key, params) => translate(locale, key, params);
+  return {t, locale, setLocale};
+};
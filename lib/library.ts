@@ -0,0 +1,69 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {APPS_STORE, promisifyRequest, withStore} from '@/lib/db';
+import {SavedApp} from '@/lib/types';
+
+// Get every saved app, most recently created first
+export async function listSavedApps(): Promise<SavedApp[]> {
+  const apps = await withStore(APPS_STORE, 'readonly', (store) =>
+    promisifyRequest<SavedApp[]>(store.getAll()),
+  );
+  return apps.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Create a saved app, or update it if one with the same ID already exists. An
+ * existing app keeps its creation date and title, and its generation metadata
+ * unless new metadata is given.
+ *
+ * @param app - The app to save.
+ * @returns The app as stored.
+ */
+export async function saveApp(
+  app: Omit<SavedApp, 'createdAt' | 'updatedAt'>,
+): Promise<SavedApp> {
+  return withStore(APPS_STORE, 'readwrite', async (store) => {
+    const existing = await promisifyRequest<SavedApp | undefined>(
+      store.get(app.id),
+    );
+    const now = new Date().toISOString();
+    const saved: SavedApp = {
+      ...existing,
+      ...app,
+      title: existing?.title ?? app.title,
+      metadata: app.metadata ?? existing?.metadata,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+    await promisifyRequest(store.put(saved));
+    return saved;
+  });
+}
+
+// Change the title of a saved app
+export async function renameSavedApp(
+  id: string,
+  title: string,
+): Promise<SavedApp> {
+  return withStore(APPS_STORE, 'readwrite', async (store) => {
+    const existing = await promisifyRequest<SavedApp | undefined>(
+      store.get(id),
+    );
+    if (!existing) {
+      throw new Error(`No saved app with ID ${id}`);
+    }
+    const saved = {...existing, title, updatedAt: new Date().toISOString()};
+    await promisifyRequest(store.put(saved));
+    return saved;
+  });
+}
+
+export async function deleteSavedApp(id: string): Promise<void> {
+  await withStore(APPS_STORE, 'readwrite', (store) =>
+    promisifyRequest(store.delete(id)),
+  );
+}
@@ -0,0 +1,344 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {Catalog} from '@/lib/i18n';
+
+// Strings of the host UI in Arabic
+export const ar: Catalog = {
+  'app.headline': 'من الفيديو إلى تطبيق تعليمي',
+  'app.subtitle': 'أنشئ تطبيقات تعليمية تفاعلية من محتوى الفيديو',
+  'app.attribution': 'تجربة من إعداد',
+  'app.interfaceLanguage': 'لغة الواجهة',
+  'app.defaultTitle': 'تطبيق تعليمي',
+
+  'input.label': 'الصق رابطًا من YouTube أو رابط ملف فيديو:',
+  'input.start': 'البداية',
+  'input.end': 'النهاية',
+  'input.endPlaceholder': 'نهاية الفيديو',
+  'input.invalidTimes': 'أدخل الأوقات بالثواني أو بصيغة m:ss، مثل 90 أو 1:30.',
+  'input.invalidSegment': 'يجب أن يكون وقت النهاية بعد وقت البداية.',
+  'validation.unsupportedUrl':
+    'أدخل رابط YouTube أو رابطًا مباشرًا لملف فيديو (مثل ‎.mp4 أو ‎.webm)',
+  'validation.notHttp': 'يجب أن يبدأ الرابط بـ http://‎ أو https://‎',
+  'validation.unsupportedFileType':
+    'نوع ملف الفيديو غير مدعوم. الأنواع المدعومة: {types}',
+  'validation.emptyTranscript': 'النص المفرّغ فارغ',
+  'validation.noSubtitles': 'لم يُعثر على ترجمات في الملف',
+  'segment.range': '{start}–{end}',
+  'segment.from': 'من {start}',
+  'segment.until': 'حتى {end}',
+  'segment.whole': 'الفيديو كاملًا',
+  'input.invalidUrl': 'رابط الفيديو غير صالح',
+  'input.upload': 'أو ارفع ملف فيديو',
+  'input.uploading': 'جارٍ رفع الفيديو...',
+  'input.uploadFailed': 'تعذّر رفع الفيديو',
+  'input.transcript': 'أو استخدم نصًا مفرّغًا أو ملف ترجمة',
+
+  'settings.promptTemplate': 'قالب التعليمات: {name}',
+  'settings.models': 'النماذج: {spec}، {code}',
+
+  'actions.validating': 'جارٍ التحقق من الرابط...',
+  'actions.generating': 'جارٍ الإنشاء...',
+  'actions.generate': 'أنشئ التطبيق',
+  'actions.share': 'انسخ رابطًا إلى هذا التطبيق',
+  'actions.shareCopied': 'تم نسخ رابط المشاركة إلى الحافظة.',
+  'actions.shareCopyPrompt': 'انسخ رابط المشاركة هذا:',
+  'actions.shareFailed': 'تعذّر إنشاء رابط المشاركة',
+  'actions.downloadHtml': 'تنزيل HTML',
+  'actions.exportBundle': 'تصدير الحزمة',
+  'actions.importBundle': 'استيراد حزمة',
+  'actions.importFailed': 'تعذّر استيراد الحزمة',
+  'actions.nothingToExport': 'لا يوجد تطبيق مُنشأ لتصديره بعد.',
+
+  'usage.session': 'هذه الجلسة',
+  'usage.app': 'هذا التطبيق',
+  'usage.summary': '{label}: {tokens} رمز · {cost}',
+  'usage.breakdown':
+    '{stage} · {model}: {requests} طلب، و{prompt} رمز للتعليمات، و{video} للفيديو، و{output} للإخراج، {cost}',
+  'usage.noPrice': 'لم يُحدَّد سعر',
+  'usage.noRequests': 'لا طلبات بعد',
+  'video.placeholder': 'سيظهر الفيديو هنا',
+  'video.unavailable.unsupported': 'لا يمكن تشغيل هذا الفيديو',
+  'video.unavailable.expiredUpload':
+    'لا يمكن تشغيل الفيديوهات المرفوعة إلا في الجلسة التي رُفعت فيها',
+  'video.unavailable.unreadable': 'تعذّرت قراءة هذا النص المفرّغ',
+  'content.placeholder': 'الصق رابط فيديو أو ارفع فيديو أو اختر مثالًا للبدء',
+  'gallery.examples': 'أمثلة',
+  'gallery.moreExamples': 'مزيد من الأمثلة',
+
+  'tabs.render': 'العرض',
+  'tabs.code': 'الشيفرة',
+  'tabs.spec': 'المواصفات',
+  'tabs.history': 'السجل',
+  'tabs.console': 'وحدة التحكم',
+  'tabs.variants': 'البدائل',
+  'tabs.quiz': 'الاختبار',
+  'tabs.evaluation': 'التقييم',
+
+  'stages.spec': 'المواصفات',
+  'stages.code': 'الشيفرة',
+  'stages.quiz': 'الاختبار',
+  'stages.evaluation': 'التقييم',
+
+  'loading.spec': 'جارٍ إنشاء مواصفات المحتوى من الفيديو...',
+  'loading.specSegment': 'جارٍ إنشاء مواصفات المحتوى من الفيديو ({segment})...',
+  'loading.code': 'جارٍ إنشاء الشيفرة من مواصفات المحتوى...',
+  'loading.streamed': '{characters} حرف · ~{tokens} رمز',
+  'loading.retry': 'إعادة المحاولة ({attempt}/{maxRetries}) بعد خطأ: {error}',
+  'loading.repairSpec':
+    'جارٍ إصلاح مواصفات غير سليمة ({attempt}/{maxAttempts}): {issue}',
+  'loading.repairQuiz':
+    'جارٍ إصلاح اختبار غير سليم ({attempt}/{maxAttempts}): {issue}',
+
+  'common.cancel': 'إلغاء',
+  'common.close': 'إغلاق',
+  'common.save': 'حفظ',
+  'common.and': '{first} و{second}',
+
+  'error.title': 'خطأ',
+  'error.generic': 'حدث خطأ ما',
+  'error.unknown': 'حدث خطأ غير معروف',
+  'error.retry': 'إعادة المحاولة دون الذاكرة المؤقتة',
+  'error.note': 'ملاحظة:',
+  'error.urlNote':
+    'يجب أن يكون الرابط رابط YouTube أو رابطًا مباشرًا إلى ملف فيديو، يبدأ بـ http:// أو https://',
+
+  'cache.notice': 'قُدّمت {stages} من ذاكرة التخزين المؤقت (أُنشئت في {date})',
+  'cache.regenerate': 'أعد الإنشاء دون ذاكرة التخزين المؤقت',
+
+  'warnings.showConsole': 'إظهار وحدة التحكم',
+  'warnings.runtimeErrors': {
+    one: 'خطأ واحد أثناء تشغيل التطبيق',
+    two: 'خطآن أثناء تشغيل التطبيق',
+    few: '{count} أخطاء أثناء تشغيل التطبيق',
+    many: '{count} خطأً أثناء تشغيل التطبيق',
+    other: '{count} خطأ أثناء تشغيل التطبيق',
+  },
+  'warnings.regenerateFixing': {
+    one: 'أعد الإنشاء مع إصلاح هذه المشكلة',
+    other: 'أعد الإنشاء مع إصلاح هذه المشكلات',
+  },
+
+  'spec.form': 'نموذج',
+  'spec.freeText': 'نص حر',
+  'spec.save': 'احفظ وأعد إنشاء الشيفرة',
+  'spec.edit': 'تعديل',
+
+  'code.updated': 'تم تحديث HTML. ستظهر التغييرات في تبويب العرض.',
+  'chat.updateFailed': 'تعذّر تحديث التطبيق: {error}',
+  'chat.updated': 'تم تحديث التطبيق.',
+  'chat.show': 'إظهار المحادثة',
+  'chat.hide': 'إخفاء المحادثة',
+  'chat.title': 'حسّن هذا التطبيق',
+  'chat.empty':
+    'صِف تغييرًا، مثل "كبّر لوحة المفاتيح" أو "أضف اختبارًا في النهاية".',
+  'chat.updating': 'جارٍ تحديث التطبيق...',
+  'chat.placeholder': 'صِف تغييرًا...',
+  'chat.send': 'إرسال',
+
+  'console.errors': {
+    zero: 'لا أخطاء',
+    one: 'خطأ واحد',
+    two: 'خطآن',
+    few: '{count} أخطاء',
+    many: '{count} خطأً',
+    other: '{count} خطأ',
+  },
+  'console.messages': {
+    zero: 'لا رسائل',
+    one: 'رسالة واحدة',
+    two: 'رسالتان',
+    few: '{count} رسائل',
+    many: '{count} رسالةً',
+    other: '{count} رسالة',
+  },
+  'console.clear': 'مسح',
+  'console.fixErrors': 'أصلح الأخطاء',
+  'console.empty': 'لم يسجّل التطبيق في تبويب العرض أي شيء.',
+
+  'quiz.score': 'النتيجة: {score} من {count}',
+  'quiz.questions': {
+    one: 'سؤال واحد',
+    two: 'سؤالان',
+    few: '{count} أسئلة',
+    many: '{count} سؤالًا',
+    other: '{count} سؤال',
+  },
+  'quiz.new': 'اختبار جديد',
+  'quiz.generate': 'أنشئ اختبارًا',
+  'quiz.generating': 'جارٍ إنشاء اختبار من الفيديو...',
+  'quiz.intro':
+    'أنشئ أسئلة اختيار من متعدد وأسئلة ذات إجابات قصيرة عن الفيديو، مع الإجابات والشروح، للتحقق مما فهمه المتعلّم.',
+  'quiz.yourAnswer': 'إجابتك',
+  'quiz.correct': 'صحيح.',
+  'quiz.answer': 'الإجابة: {answer}',
+  'quiz.tryAgain': 'حاول مجددًا',
+  'quiz.check': 'تحقّق من الإجابات',
+
+  'evaluation.judge': 'المُقيِّم',
+  'evaluation.methods.model': 'حكم النموذج',
+  'evaluation.methods.heuristic': 'المصطلحات الرئيسية فقط',
+  'evaluation.regenerateWithGaps': {
+    one: 'أعد الإنشاء مع نقص واحد',
+    two: 'أعد الإنشاء مع نقصين',
+    few: 'أعد الإنشاء مع {count} نواقص',
+    many: 'أعد الإنشاء مع {count} نقصًا',
+    other: 'أعد الإنشاء مع {count} نقص',
+  },
+  'evaluation.regenerateWithGap': 'أعد الإنشاء مع هذا النقص',
+  'evaluation.evaluate': 'قيّم',
+  'evaluation.evaluateAgain': 'قيّم مجددًا',
+  'evaluation.checking': 'جارٍ التحقق من الشيفرة مقابل المواصفات...',
+  'evaluation.intro':
+    'تحقّق مما إذا كانت الشيفرة تنفّذ كل بند من قائمة SPECIFICATIONS في المواصفات.',
+  'evaluation.statuses.met': 'مُنجَز',
+  'evaluation.statuses.partial': 'جزئي',
+  'evaluation.statuses.missing': 'ناقص',
+  'evaluation.counts.met': 'مُنجَز: {count}',
+  'evaluation.counts.partial': 'جزئي: {count}',
+  'evaluation.counts.missing': 'ناقص: {count}',
+  'evaluation.judgedByModel': 'قيّمه {model}',
+  'evaluation.judgedByKeyTerms': 'قُيّم بالمصطلحات الرئيسية',
+  'evaluation.outdated': 'تغيّرت الشيفرة منذ هذا التقييم',
+
+  'history.empty': 'ستظهر المراجعات هنا مع إنشاء التطبيق وتعديله.',
+  'history.kinds.original': 'الأصل',
+  'history.kinds.generation': 'مُنشأ',
+  'history.kinds.spec-edit': 'أُعيد إنشاؤه من مواصفات معدّلة',
+  'history.kinds.code-edit': 'شيفرة معدّلة',
+  'history.kinds.refinement': 'حُسّن في المحادثة',
+  'history.kinds.variant': 'بديل',
+  'history.kinds.promoted-variant': 'بديل مُعتمَد',
+  'history.kinds.restore': 'مُستعاد',
+  'history.showLeft': 'اعرضه في الجانب الأيسر من المقارنة',
+  'history.showRight': 'اعرضه في الجانب الأيمن من المقارنة',
+  'history.restoreSpec': 'استعد المواصفات',
+  'history.restoreCode': 'استعد الشيفرة',
+  'history.comparing': 'مقارنة #{original} (A) مع #{modified} (B)',
+
+  'variants.generate': {
+    two: 'أنشئ بديلين',
+    few: 'أنشئ {count} بدائل',
+    other: 'أنشئ {count} بديلًا',
+  },
+  'variants.empty':
+    'أنشئ عدة نسخ من الشيفرة من المواصفات الحالية دفعة واحدة، ثم اعتمد أفضلها. تُحفظ كل البدائل أيضًا في تبويب السجل.',
+  'variants.title': 'البديل {number}',
+  'variants.use': 'استخدم هذا البديل',
+  'variants.progress': 'جارٍ الإنشاء... {characters} حرف',
+
+  'library.title': 'تطبيقاتي',
+  'library.empty': 'ستُحفظ هنا التطبيقات التي تنشئها.',
+  'library.rename': 'إعادة التسمية',
+  'library.renamePrompt': 'أعد تسمية التطبيق:',
+  'library.renameFailed': 'تعذّرت إعادة تسمية التطبيق: {error}',
+  'library.delete': 'حذف',
+  'library.deleteConfirm': 'هل تريد حذف "{title}"؟ لا يمكن التراجع عن ذلك.',
+  'library.deleteFailed': 'تعذّر حذف التطبيق: {error}',
+
+  'generationSettings.title': 'إعدادات النماذج',
+  'generationSettings.outputLanguage': 'لغة المخرجات',
+  'generationSettings.writeIn': 'اكتب المواصفات والاختبارات والتطبيقات بـ',
+  'generationSettings.templateLanguage': 'لغة قالب الطلب',
+  'generationSettings.model': 'النموذج',
+  'generationSettings.temperature': 'درجة الحرارة: {temperature}',
+  'generationSettings.maxOutputTokens': 'الحد الأقصى لرموز المخرجات',
+  'generationSettings.modelDefault': 'الافتراضي للنموذج',
+  'generationSettings.safety': 'حدود الأمان',
+  'generationSettings.prices': 'الأسعار (بالدولار الأمريكي لكل مليون رمز)',
+  'generationSettings.prices.input': 'المدخلات',
+  'generationSettings.prices.video': 'الفيديو',
+  'generationSettings.prices.output': 'المخرجات',
+  'generationSettings.prices.notSet': 'غير محدد',
+  'generationSettings.cache': 'ذاكرة التوليد المؤقتة',
+  'generationSettings.cacheStats': {
+    zero: 'لا توجد ردود مخزنة، {size} ميغابايت',
+    one: 'رد مخزن واحد، {size} ميغابايت',
+    two: 'ردّان مخزنان، {size} ميغابايت',
+    few: '{count} ردود مخزنة، {size} ميغابايت',
+    many: '{count} ردًا مخزنًا، {size} ميغابايت',
+    other: '{count} رد مخزن، {size} ميغابايت',
+  },
+  'generationSettings.clearCache': 'مسح الذاكرة المؤقتة',
+  'generationSettings.clearCacheFailed': 'تعذّر مسح الذاكرة المؤقتة',
+  'generationSettings.reset': 'استعادة الإعدادات الافتراضية',
+
+  'safety.categories.harassment': 'التحرش',
+  'safety.categories.hateSpeech': 'خطاب الكراهية',
+  'safety.categories.sexuallyExplicit': 'المحتوى الجنسي الصريح',
+  'safety.categories.dangerousContent': 'المحتوى الخطير',
+  'safety.thresholds.none': 'عدم الحظر',
+  'safety.thresholds.few': 'حظر القليل',
+  'safety.thresholds.some': 'حظر البعض',
+  'safety.thresholds.most': 'حظر الأغلب',
+
+  'templates.title': 'قوالب الطلبات',
+  'templates.discardConfirm': 'هل تريد تجاهل تغييراتك على هذا القالب؟',
+  'templates.saveFailed': 'تعذّر حفظ القالب',
+  'templates.deleteConfirm': 'هل تريد حذف القالب "{name}"؟',
+  'templates.builtIn': 'مدمج',
+  'templates.version': 'الإصدار {version}',
+  'templates.inUse': 'قيد الاستخدام',
+  'templates.name': 'الاسم',
+  'templates.variables.audience': 'مستوى الجمهور',
+  'templates.variables.style': 'أسلوب التطبيق',
+  'templates.variables.length': 'قيود الطول',
+  'templates.variables.language': 'اللغة',
+  'templates.examples.audience': 'مثلًا: طلاب المرحلة الابتدائية',
+  'templates.examples.style': 'مثلًا: على شكل لعبة، بنقاط ومستويات',
+  'templates.examples.length': 'مثلًا: اجعل المواصفات 5 مواصفات على الأكثر.',
+  'templates.examples.language': 'مثلًا: الإسبانية',
+  'templates.specPrompt': 'طلب المواصفات',
+  'templates.codeAddendum': 'تعليمات الشيفرة (تُلحق بالمواصفات)',
+  'templates.sectionsHelp':
+    'لا تُضمَّن الأقسام بين {open} و{close} إلا عند تعيين ذلك المتغير.',
+  'templates.duplicateHelp': 'انسخ قالبًا مدمجًا لتعديله.',
+  'templates.delete': 'حذف',
+  'templates.duplicate': 'نسخ',
+  'templates.use': 'استخدامه للتطبيقات الجديدة',
+
+  'transcript.title': 'استخدام نص مفرّغ',
+  'transcript.readFailed': 'تعذّرت قراءة الملف',
+  'transcript.intro':
+    'أنشئ تطبيقًا من النص المفرّغ للفيديو بدلًا من الفيديو نفسه. تحتفظ الترجمات بتوقيتها، فتستطيع المواصفات الإشارة إلى موضع كل فكرة في الفيديو.',
+  'transcript.titleLabel': 'العنوان',
+  'transcript.defaultTitle': 'نص مفرّغ',
+  'transcript.text': 'النص المفرّغ',
+  'transcript.placeholder': 'الصق نصًا مفرّغًا، أو محتوى ملف ‎.srt أو ‎.vtt',
+  'transcript.load': 'تحميل ملف ‎.srt أو ‎.vtt أو ‎.txt',
+  'transcript.formats.text': 'نص عادي',
+  'transcript.formats.srt': {
+    zero: 'ترجمات SubRip، بلا مقاطع',
+    one: 'ترجمات SubRip، مقطع واحد',
+    two: 'ترجمات SubRip، مقطعان',
+    few: 'ترجمات SubRip، {count} مقاطع',
+    many: 'ترجمات SubRip، {count} مقطعًا',
+    other: 'ترجمات SubRip، {count} مقطع',
+  },
+  'transcript.formats.vtt': {
+    zero: 'ترجمات WebVTT، بلا مقاطع',
+    one: 'ترجمات WebVTT، مقطع واحد',
+    two: 'ترجمات WebVTT، مقطعان',
+    few: 'ترجمات WebVTT، {count} مقاطع',
+    many: 'ترجمات WebVTT، {count} مقطعًا',
+    other: 'ترجمات WebVTT، {count} مقطع',
+  },
+  'transcript.generate': 'إنشاء التطبيق',
+
+  'specEditor.intro': 'المقدمة',
+  'specEditor.requirements': 'المواصفات',
+  'specEditor.exclude': 'استبعاد من المواصفات',
+  'specEditor.include': 'تضمين في المواصفات',
+  'specEditor.placeholder': 'يجب أن يقوم التطبيق بـ...',
+  'specEditor.moveUp': 'نقل لأعلى',
+  'specEditor.moveDown': 'نقل لأسفل',
+  'specEditor.remove': 'إزالة',
+  'specEditor.add': 'إضافة مواصفة',
+  'specEditor.outro': 'ملاحظات ختامية',
+  'specEditor.addendum': 'تعليمات الشيفرة (مُلحقة من قالب الطلب)',
+
+  'preview.title': 'التطبيق المُنشأ',
+};
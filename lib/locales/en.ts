@@ -0,0 +1,306 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+// Strings of the host UI in English. Every other catalog uses the same keys
+// and falls back to these for any it leaves out.
+export const en = {
+  'app.headline': 'Video to Learning App',
+  'app.subtitle': 'Generate interactive learning apps from video content',
+  'app.attribution': 'An experiment by',
+  'app.interfaceLanguage': 'Interface language',
+  'app.defaultTitle': 'Learning app',
+
+  'input.label': 'Paste a URL from YouTube or of a video file:',
+  'input.start': 'Start',
+  'input.end': 'End',
+  'input.endPlaceholder': 'End of video',
+  'input.invalidTimes': 'Enter times in seconds or as m:ss, e.g. 90 or 1:30.',
+  'input.invalidSegment': 'The end time must be after the start time.',
+  'validation.unsupportedUrl':
+    'Enter a YouTube URL or a direct link to a video file (e.g. .mp4 or .webm)',
+  'validation.notHttp': 'URL must begin with http:// or https://',
+  'validation.unsupportedFileType':
+    'Unsupported video file type. Supported types: {types}',
+  'validation.emptyTranscript': 'The transcript is empty',
+  'validation.noSubtitles': 'No subtitles found in the file',
+  'segment.range': '{start}–{end}',
+  'segment.from': 'from {start}',
+  'segment.until': 'until {end}',
+  'segment.whole': 'whole video',
+  'input.invalidUrl': 'Invalid video URL',
+  'input.upload': 'Or upload a video file',
+  'input.uploading': 'Uploading video...',
+  'input.uploadFailed': 'Failed to upload the video',
+  'input.transcript': 'Or use a transcript or subtitles',
+
+  'settings.promptTemplate': 'Prompt template: {name}',
+  'settings.models': 'Models: {spec}, {code}',
+
+  'actions.validating': 'Validating URL...',
+  'actions.generating': 'Generating...',
+  'actions.generate': 'Generate app',
+  'actions.share': 'Copy a link to this app',
+  'actions.shareCopied': 'Share link copied to the clipboard.',
+  'actions.shareCopyPrompt': 'Copy this share link:',
+  'actions.shareFailed': 'Failed to create share link',
+  'actions.downloadHtml': 'Download HTML',
+  'actions.exportBundle': 'Export bundle',
+  'actions.importBundle': 'Import bundle',
+  'actions.importFailed': 'Failed to import the bundle',
+  'actions.nothingToExport': 'There is no generated app to export yet.',
+
+  'usage.session': 'This session',
+  'usage.app': 'This app',
+  'usage.summary': '{label}: {tokens} tokens · {cost}',
+  'usage.breakdown':
+    '{stage} · {model}: {requests} requests, {prompt} prompt, {video} video and {output} output tokens, {cost}',
+  'usage.noPrice': 'no price set',
+  'usage.noRequests': 'No requests yet',
+  'video.placeholder': 'Video will appear here',
+  'video.unavailable.unsupported': 'This video cannot be played',
+  'video.unavailable.expiredUpload':
+    'Uploaded videos can only be played in the session they were uploaded in',
+  'video.unavailable.unreadable': 'This transcript cannot be read',
+  'content.placeholder':
+    'Paste a video URL, upload a video or select an example to begin',
+  'gallery.examples': 'Examples',
+  'gallery.moreExamples': 'More examples',
+
+  'tabs.render': 'Render',
+  'tabs.code': 'Code',
+  'tabs.spec': 'Spec',
+  'tabs.history': 'History',
+  'tabs.console': 'Console',
+  'tabs.variants': 'Variants',
+  'tabs.quiz': 'Quiz',
+  'tabs.evaluation': 'Evaluation',
+
+  'stages.spec': 'Spec',
+  'stages.code': 'Code',
+  'stages.quiz': 'Quiz',
+  'stages.evaluation': 'Evaluation',
+
+  'loading.spec': 'Generating content spec from video...',
+  'loading.specSegment': 'Generating content spec from video ({segment})...',
+  'loading.code': 'Generating code from content spec...',
+  'loading.streamed': '{characters} characters · ~{tokens} tokens',
+  'loading.retry': 'Retrying ({attempt}/{maxRetries}) after an error: {error}',
+  'loading.repairSpec':
+    'Repairing a malformed spec ({attempt}/{maxAttempts}): {issue}',
+  'loading.repairQuiz':
+    'Repairing a malformed quiz ({attempt}/{maxAttempts}): {issue}',
+
+  'common.cancel': 'Cancel',
+  'common.close': 'Close',
+  'common.save': 'Save',
+  'common.and': '{first} and {second}',
+
+  'error.title': 'Error',
+  'error.generic': 'Something went wrong',
+  'error.unknown': 'An unknown error occurred',
+  'error.retry': 'Try again without cache',
+  'error.note': 'NOTE:',
+  'error.urlNote':
+    'URL must be a YouTube link or a direct link to a video file, beginning with http:// or https://',
+
+  'cache.notice': '{stages} served from cache (generated {date})',
+  'cache.regenerate': 'Regenerate without cache',
+
+  'warnings.showConsole': 'Show the console',
+  'warnings.runtimeErrors': {
+    one: '1 error while running the app',
+    other: '{count} errors while running the app',
+  },
+  'warnings.regenerateFixing': {
+    one: 'Regenerate fixing this',
+    other: 'Regenerate fixing these',
+  },
+
+  'spec.form': 'Form',
+  'spec.freeText': 'Free text',
+  'spec.save': 'Save & regenerate code',
+  'spec.edit': 'Edit',
+
+  'code.updated': 'HTML updated. Changes will appear in the Render tab.',
+  'chat.updateFailed': 'The app could not be updated: {error}',
+  'chat.updated': 'Updated the app.',
+  'chat.show': 'Show chat',
+  'chat.hide': 'Hide chat',
+  'chat.title': 'Refine this app',
+  'chat.empty':
+    'Describe a change, e.g. "make the keyboard bigger" or "add a quiz at the end".',
+  'chat.updating': 'Updating the app...',
+  'chat.placeholder': 'Describe a change...',
+  'chat.send': 'Send',
+
+  'console.errors': {one: '1 error', other: '{count} errors'},
+  'console.messages': {one: '1 message', other: '{count} messages'},
+  'console.clear': 'Clear',
+  'console.fixErrors': 'Fix errors',
+  'console.empty': 'Nothing has been logged by the app in the Render tab.',
+
+  'quiz.score': 'Score: {score} of {count}',
+  'quiz.questions': {one: '1 question', other: '{count} questions'},
+  'quiz.new': 'New quiz',
+  'quiz.generate': 'Generate quiz',
+  'quiz.generating': 'Generating a quiz from the video...',
+  'quiz.intro':
+    'Generate multiple-choice and short-answer questions on the video, with answers and explanations, to check what the learner has understood.',
+  'quiz.yourAnswer': 'Your answer',
+  'quiz.correct': 'Correct.',
+  'quiz.answer': 'Answer: {answer}',
+  'quiz.tryAgain': 'Try again',
+  'quiz.check': 'Check answers',
+
+  'evaluation.judge': 'Judge',
+  'evaluation.methods.model': 'Model judge',
+  'evaluation.methods.heuristic': 'Key terms only',
+  'evaluation.regenerateWithGaps': {
+    one: 'Regenerate with 1 gap',
+    other: 'Regenerate with {count} gaps',
+  },
+  'evaluation.regenerateWithGap': 'Regenerate with this gap',
+  'evaluation.evaluate': 'Evaluate',
+  'evaluation.evaluateAgain': 'Evaluate again',
+  'evaluation.checking': 'Checking the code against the spec...',
+  'evaluation.intro':
+    "Check whether the code implements each item of the spec's SPECIFICATIONS list.",
+  'evaluation.statuses.met': 'Met',
+  'evaluation.statuses.partial': 'Partial',
+  'evaluation.statuses.missing': 'Missing',
+  'evaluation.counts.met': '{count} met',
+  'evaluation.counts.partial': '{count} partial',
+  'evaluation.counts.missing': '{count} missing',
+  'evaluation.judgedByModel': 'Judged by {model}',
+  'evaluation.judgedByKeyTerms': 'Judged by key terms',
+  'evaluation.outdated': 'The code has changed since this evaluation',
+
+  'history.empty':
+    'Revisions will appear here as the app is generated and edited.',
+  'history.kinds.original': 'Original',
+  'history.kinds.generation': 'Generated',
+  'history.kinds.spec-edit': 'Regenerated from edited spec',
+  'history.kinds.code-edit': 'Edited code',
+  'history.kinds.refinement': 'Refined in chat',
+  'history.kinds.variant': 'Variant',
+  'history.kinds.promoted-variant': 'Promoted variant',
+  'history.kinds.restore': 'Restored',
+  'history.showLeft': 'Show on the left side of the diff',
+  'history.showRight': 'Show on the right side of the diff',
+  'history.restoreSpec': 'Restore spec',
+  'history.restoreCode': 'Restore code',
+  'history.comparing': 'Comparing #{original} (A) with #{modified} (B)',
+
+  'variants.generate': 'Generate {count} variants',
+  'variants.empty':
+    'Generate several versions of the code from the current spec at once, then promote the best one. Every variant is also kept in the History tab.',
+  'variants.title': 'Variant {number}',
+  'variants.use': 'Use this variant',
+  'variants.progress': 'Generating... {characters} characters',
+
+  'library.title': 'My apps',
+  'library.empty': 'Apps you generate will be saved here.',
+  'library.rename': 'Rename',
+  'library.renamePrompt': 'Rename app:',
+  'library.renameFailed': 'Failed to rename app: {error}',
+  'library.delete': 'Delete',
+  'library.deleteConfirm': 'Delete "{title}"? This cannot be undone.',
+  'library.deleteFailed': 'Failed to delete app: {error}',
+
+  'generationSettings.title': 'Model settings',
+  'generationSettings.outputLanguage': 'Output language',
+  'generationSettings.writeIn': 'Write specs, quizzes and apps in',
+  'generationSettings.templateLanguage': "The prompt template's language",
+  'generationSettings.model': 'Model',
+  'generationSettings.temperature': 'Temperature: {temperature}',
+  'generationSettings.maxOutputTokens': 'Max output tokens',
+  'generationSettings.modelDefault': 'Model default',
+  'generationSettings.safety': 'Safety thresholds',
+  'generationSettings.prices': 'Prices (US dollars per million tokens)',
+  'generationSettings.prices.input': 'Input',
+  'generationSettings.prices.video': 'Video',
+  'generationSettings.prices.output': 'Output',
+  'generationSettings.prices.notSet': 'Not set',
+  'generationSettings.cache': 'Generation cache',
+  'generationSettings.cacheStats': {
+    one: '1 cached response, {size} MB',
+    other: '{count} cached responses, {size} MB',
+  },
+  'generationSettings.clearCache': 'Clear cache',
+  'generationSettings.clearCacheFailed': 'Failed to clear cache',
+  'generationSettings.reset': 'Reset to defaults',
+
+  'safety.categories.harassment': 'Harassment',
+  'safety.categories.hateSpeech': 'Hate speech',
+  'safety.categories.sexuallyExplicit': 'Sexually explicit',
+  'safety.categories.dangerousContent': 'Dangerous content',
+  'safety.thresholds.none': 'Block none',
+  'safety.thresholds.few': 'Block few',
+  'safety.thresholds.some': 'Block some',
+  'safety.thresholds.most': 'Block most',
+
+  'templates.title': 'Prompt templates',
+  'templates.discardConfirm': 'Discard your changes to this template?',
+  'templates.saveFailed': 'Failed to save template',
+  'templates.deleteConfirm': 'Delete the template "{name}"?',
+  'templates.builtIn': 'Built in',
+  'templates.version': 'v{version}',
+  'templates.inUse': 'In use',
+  'templates.name': 'Name',
+  'templates.variables.audience': 'Audience level',
+  'templates.variables.style': 'App style',
+  'templates.variables.length': 'Length constraints',
+  'templates.variables.language': 'Language',
+  'templates.examples.audience': 'e.g. primary school students',
+  'templates.examples.style': 'e.g. game-like, with points and levels',
+  'templates.examples.length':
+    'e.g. Keep the spec to at most 5 specifications.',
+  'templates.examples.language': 'e.g. Spanish',
+  'templates.specPrompt': 'Spec prompt',
+  'templates.codeAddendum': 'Code instructions (appended to the spec)',
+  'templates.sectionsHelp':
+    'Sections between {open} and {close} are only included when that variable is set.',
+  'templates.duplicateHelp': 'Duplicate a built-in template to edit it.',
+  'templates.delete': 'Delete',
+  'templates.duplicate': 'Duplicate',
+  'templates.use': 'Use for new apps',
+
+  'transcript.title': 'Use a transcript',
+  'transcript.readFailed': 'Failed to read the file',
+  'transcript.intro':
+    "Generate an app from a video's transcript instead of the video itself. Subtitles keep their timing, so the spec can point to where in the video each idea comes from.",
+  'transcript.titleLabel': 'Title',
+  'transcript.defaultTitle': 'Transcript',
+  'transcript.text': 'Transcript',
+  'transcript.placeholder':
+    'Paste a transcript, or the contents of an .srt or .vtt file',
+  'transcript.load': 'Load .srt, .vtt or .txt file',
+  'transcript.formats.text': 'Plain text',
+  'transcript.formats.srt': {
+    one: 'SubRip subtitles, 1 cue',
+    other: 'SubRip subtitles, {count} cues',
+  },
+  'transcript.formats.vtt': {
+    one: 'WebVTT subtitles, 1 cue',
+    other: 'WebVTT subtitles, {count} cues',
+  },
+  'transcript.generate': 'Generate app',
+
+  'specEditor.intro': 'Introduction',
+  'specEditor.requirements': 'Specifications',
+  'specEditor.exclude': 'Leave out of the spec',
+  'specEditor.include': 'Include in the spec',
+  'specEditor.placeholder': 'The app must...',
+  'specEditor.moveUp': 'Move up',
+  'specEditor.moveDown': 'Move down',
+  'specEditor.remove': 'Remove',
+  'specEditor.add': 'Add specification',
+  'specEditor.outro': 'Closing notes',
+  'specEditor.addendum':
+    'Code instructions (appended from the prompt template)',
+
+  'preview.title': 'Generated app',
+};
@@ -4,14 +4,277 @@
 */
 /* tslint:disable */
 
+// Parse a JSON object out of a model response, which may wrap it in a code
+// fence or surround it with prose. Throws an error describing what is wrong
+// with the response if no object can be parsed.
 export const parseJSON = (str: string) => {
   const start = str.indexOf('{');
   const end = str.lastIndexOf('}') + 1;
-  return JSON.parse(str.substring(start, end));
+
+  if (start === -1) {
+    throw new Error('The response does not contain a JSON object.');
+  }
+  if (end <= start) {
+    throw new Error(
+      'The JSON object in the response is incomplete; it may have been cut off.',
+    );
+  }
+
+  const candidates = [str.trim()];
+  const fenced = str.match(/```(?:json)?[^\S\n]*\n([\s\S]*?)```/);
+  if (fenced) {
+    candidates.push(fenced[1].trim());
+  }
+  candidates.push(str.substring(start, end));
+
+  let syntaxError: unknown;
+  for (const candidate of candidates) {
+    try {
+      return JSON.parse(candidate);
+    } catch (error) {
+      syntaxError = error;
+    }
+  }
+
+  throw new Error(
+    `The response is not valid JSON (${syntaxError instanceof Error ? syntaxError.message : syntaxError}).`,
+  );
+};
+
+export interface HTMLDiagnostic {
+  kind:
+    | 'no-html'
+    | 'truncated'
+    | 'missing-closing-tag'
+    | 'missing-doctype'
+    | 'leftover-prose'
+    | 'multiple-blocks'
+    | 'unfenced';
+  message: string;
+}
+
+export interface ParsedHTML {
+  code: string;
+  diagnostics: HTMLDiagnostic[];
+}
+
+interface CodeBlock {
+  body: string;
+  isClosed: boolean;
+}
+
+// Find a closing fence at the start of a line, since code may contain the
+// closer elsewhere (e.g. in a JS template string)
+const findClosingFence = (str: string, closer: string, lineEnd: number) => {
+  const index = str.indexOf(`\n${closer}`, lineEnd);
+  return index === -1 ? -1 : index + 1;
+};
+
+// Find every fenced code block in a response. A block whose closing fence
+// never arrives runs to the end of the response.
+const findCodeBlocks = (str: string, opener: string, closer: string) => {
+  const blocks: CodeBlock[] = [];
+  let position = 0;
+
+  while (true) {
+    const openerIndex = str.indexOf(opener, position);
+    if (openerIndex === -1) break;
+
+    // The rest of the opener line is an optional language tag
+    const lineEnd = str.indexOf('\n', openerIndex + opener.length);
+    if (lineEnd === -1) break;
+    const bodyStart = lineEnd + 1;
+
+    // Prefer a closing fence on its own line
+    let closerIndex = findClosingFence(str, closer, lineEnd);
+    if (closerIndex === -1) {
+      closerIndex = str.indexOf(closer, bodyStart);
+    }
+
+    if (closerIndex === -1) {
+      blocks.push({body: str.substring(bodyStart), isClosed: false});
+      break;
+    }
+
+    blocks.push({body: str.substring(bodyStart, closerIndex), isClosed: true});
+    position = closerIndex + closer.length;
+  }
+
+  return blocks;
 };
 
-export const parseHTML = (str: string, opener: string, closer: string) => {
-  const start = str.indexOf('<!DOCTYPE html>');
-  const end = str.lastIndexOf(closer);
-  return str.substring(start, end);
+const DOCUMENT_START = /<!DOCTYPE\s+html|<html[\s>]/i;
+const DOCUMENT_END = /<\/html\s*>/i;
+
+// How closely a code block resembles a complete HTML document
+const scoreBlock = (block: CodeBlock) =>
+  (DOCUMENT_START.test(block.body) ? 4 : /<[a-z]/i.test(block.body) ? 1 : 0) +
+  (DOCUMENT_END.test(block.body) ? 2 : 0) +
+  (block.isClosed ? 1 : 0);
+
+/**
+ * Extract an HTML document from a model response.
+ *
+ * Handles responses with one or more fenced code blocks (with or without a
+ * language tag) as well as bare HTML, and reports anything suspicious about
+ * the document that was found.
+ *
+ * @param str - The model response.
+ * @param opener - The fence that opens a code block.
+ * @param closer - The fence that closes a code block.
+ * @returns The extracted code and diagnostics about it. The code is empty if
+ *     no HTML could be found.
+ */
+export const parseHTML = (
+  str: string,
+  opener: string,
+  closer: string,
+): ParsedHTML => {
+  const diagnostics: HTMLDiagnostic[] = [];
+  const blocks = findCodeBlocks(str, opener, closer);
+
+  let block: CodeBlock;
+  if (blocks.length === 0) {
+    block = {body: str, isClosed: true};
+    diagnostics.push({
+      kind: 'unfenced',
+      message: 'The code was not inside a code block.',
+    });
+  } else {
+    // Pick the block that looks most like a complete document, favouring the
+    // last one if several are equally good (models tend to refine as they go)
+    block = blocks.reduce((best, candidate) =>
+      scoreBlock(candidate) >= scoreBlock(best) ? candidate : best,
+    );
+    if (blocks.length > 1) {
+      diagnostics.push({
+        kind: 'multiple-blocks',
+        message: `The response contained ${blocks.length} code blocks; only the most complete one is used.`,
+      });
+    }
+  }
+
+  if (!/<[a-z!]/i.test(block.body)) {
+    return {
+      code: '',
+      diagnostics: [
+        {kind: 'no-html', message: 'The response did not contain any HTML.'},
+      ],
+    };
+  }
+
+  let code = block.body;
+
+  if (!block.isClosed) {
+    diagnostics.push({
+      kind: 'truncated',
+      message:
+        'The code block was never closed, so the document may be truncated.',
+    });
+  }
+
+  // Trim anything before the start of the document. Bare HTML without a
+  // doctype or <html> tag starts at its first tag.
+  const startMatch = code.match(DOCUMENT_START);
+  const start = startMatch
+    ? startMatch.index!
+    : blocks.length === 0
+      ? code.search(/<[a-z!]/i)
+      : 0;
+  if (code.substring(0, start).trim()) {
+    diagnostics.push({
+      kind: 'leftover-prose',
+      message: 'Text before the start of the document was removed.',
+    });
+  }
+  code = code.substring(start);
+
+  // Trim anything after the end of the document
+  const endMatch = code.match(DOCUMENT_END);
+  if (endMatch?.index !== undefined) {
+    const end = endMatch.index + endMatch[0].length;
+    if (code.substring(end).trim()) {
+      diagnostics.push({
+        kind: 'leftover-prose',
+        message: 'Text after the end of the document was removed.',
+      });
+    }
+    code = code.substring(0, end);
+  } else {
+    diagnostics.push({
+      kind: 'missing-closing-tag',
+      message: 'The document has no closing </html> tag.',
+    });
+  }
+
+  if (!/^\s*<!DOCTYPE\s+html/i.test(code)) {
+    diagnostics.push({
+      kind: 'missing-doctype',
+      message: 'The document does not start with <!DOCTYPE html>.',
+    });
+  }
+
+  return {code: code.trim(), diagnostics};
+};
+
+// Extract whatever has arrived so far of a string field in a JSON object that
+// is still being streamed, e.g. `{"spec": "In music, ch`
+export const parsePartialJSONString = (str: string, field: string) => {
+  const match = str.match(new RegExp(`"${field}"\\s*:\\s*"`));
+  if (!match || match.index === undefined) {
+    return '';
+  }
+
+  let value = str.substring(match.index + match[0].length);
+
+  // Cut at the closing quote, if it has arrived
+  let end = 0;
+  let escaped = false;
+  for (; end < value.length; end++) {
+    if (escaped) {
+      escaped = false;
+    } else if (value[end] === '\\') {
+      escaped = true;
+    } else if (value[end] === '"') {
+      break;
+    }
+  }
+  value = value.substring(0, escaped ? end - 1 : end);
+
+  // Drop a unicode escape sequence that has only partially arrived
+  value = value.replace(/\\u[0-9a-fA-F]{0,3}$/, '');
+
+  try {
+    return JSON.parse(`"${value}"`) as string;
+  } catch {
+    return '';
+  }
+};
+
+// Extract the code streamed so far from a response that is still being
+// generated, and whether the closing code fence has arrived yet. Only a fence
+// on its own line closes the code, since the rest of the response has not
+// arrived to show whether a closer elsewhere is part of the code.
+export const parsePartialHTML = (
+  str: string,
+  opener: string,
+  closer: string,
+) => {
+  const openerIndex = str.indexOf(opener);
+  if (openerIndex === -1) {
+    return {code: '', isComplete: false};
+  }
+
+  // Skip the rest of the opener line (e.g. a language tag)
+  const lineEnd = str.indexOf('\n', openerIndex + opener.length);
+  if (lineEnd === -1) {
+    return {code: '', isComplete: false};
+  }
+
+  const bodyStart = lineEnd + 1;
+  const closerIndex = findClosingFence(str, closer, lineEnd);
+
+  return closerIndex === -1
+    ? {code: str.substring(bodyStart), isComplete: false}
+    : {code: str.substring(bodyStart, closerIndex), isComplete: true};
 };
@@ -0,0 +1,346 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {
+  AppEvaluation,
+  EvaluationMethod,
+  SpecItemEvaluation,
+  evaluateWithHeuristics,
+  validateJudgement,
+} from '@/lib/evaluation';
+import {CacheMode, CachedGeneration} from '@/lib/generationCache';
+import {
+  GenerationSettings,
+  PipelineStage,
+  getStageOptions,
+} from '@/lib/generationSettings';
+import {HTMLDiagnostic, parseHTML} from '@/lib/parse';
+import {
+  PromptTemplate,
+  applyOutputLanguage,
+  getTemplateReference,
+  renderCodeAddendum,
+  renderSpecPrompt,
+  renderTemplate,
+} from '@/lib/promptTemplates';
+import {
+  CODE_REGION_CLOSER,
+  CODE_REGION_OPENER,
+  EVALUATION_RESPONSE_SCHEMA,
+  QUIZ_FROM_VIDEO_PROMPT,
+  QUIZ_RESPONSE_SCHEMA,
+  SPEC_RESPONSE_SCHEMA,
+  getEvaluationPrompt,
+  getTranscriptAddendum,
+} from '@/lib/prompts';
+import {TokenUsage} from '@/lib/providers/types';
+import {validateQuiz} from '@/lib/quiz';
+import {parseSpecItems} from '@/lib/specStructure';
+import {generateJSON, generateTextStream} from '@/lib/textGeneration';
+import {isPartialSegment} from '@/lib/timestamps';
+import {formatTranscriptForPrompt, parseTranscriptUrl} from '@/lib/transcripts';
+import {
+  GenerationMetadata,
+  Quiz,
+  QuizQuestion,
+  VideoSegment,
+} from '@/lib/types';
+import {getVideoSource} from '@/lib/videoSources';
+
+// How many times to ask the model to fix a spec or quiz that is not valid JSON
+const MAX_REPAIR_ATTEMPTS = 2;
+
+// Ways to control the requests made for a stage and follow their progress
+interface StageRequest {
+  settings: GenerationSettings;
+  signal?: AbortSignal;
+  cache?: CacheMode;
+  onProgress?: (textSoFar: string) => void;
+  onRetry?: (attempt: number, maxRetries: number, error: unknown) => void;
+  onCacheHit?: (stage: PipelineStage, entry: CachedGeneration) => void;
+  onUsage?: (
+    stage: PipelineStage,
+    modelName: string,
+    usage: TokenUsage,
+  ) => void;
+}
+
+export interface SpecRequest extends StageRequest {
+  videoUrl: string;
+  videoSegment?: VideoSegment;
+  template: PromptTemplate;
+  onRepair?: (attempt: number, maxAttempts: number, issues: string[]) => void;
+}
+
+export type QuizRequest = SpecRequest;
+
+export interface CodeRequest extends StageRequest {
+  spec: string;
+  // Sent along with the spec without becoming part of it
+  extraInstructions?: string;
+}
+
+export interface EvaluationRequest extends StageRequest {
+  spec: string;
+  code: string;
+  method: EvaluationMethod;
+}
+
+export interface GeneratedCode {
+  code: string;
+  diagnostics: HTMLDiagnostic[];
+}
+
+export interface PipelineRequest extends Omit<SpecRequest, 'onProgress'> {
+  onStageChange?: (stage: PipelineStage) => void;
+  onProgress?: (stage: PipelineStage, textSoFar: string) => void;
+}
+
+export interface PipelineResult extends GeneratedCode {
+  spec: string;
+  metadata: GenerationMetadata;
+}
+
+// The options for the requests of one stage, with the callbacks told which
+// stage they are for
+const getRequestOptions = (stage: PipelineStage, request: StageRequest) => {
+  const options = getStageOptions(request.settings, stage);
+  const {onCacheHit, onUsage} = request;
+  return {
+    ...options,
+    signal: request.signal,
+    cache: request.cache,
+    onRetry: request.onRetry,
+    onCacheHit:
+      onCacheHit && ((entry: CachedGeneration) => onCacheHit(stage, entry)),
+    onUsage:
+      onUsage &&
+      ((usage: TokenUsage) => onUsage(stage, options.modelName, usage)),
+  };
+};
+
+// The prompt and video to send for a stage that works from the video.
+// Transcripts are not sent as a video but written out after the prompt.
+const getVideoInput = (
+  prompt: string,
+  videoUrl: string,
+  videoSegment?: VideoSegment,
+) => {
+  const transcript = parseTranscriptUrl(videoUrl);
+  if (transcript) {
+    return {
+      prompt:
+        prompt +
+        getTranscriptAddendum(
+          formatTranscriptForPrompt(transcript, videoSegment),
+          transcript.format !== 'text',
+        ),
+    };
+  }
+  return {
+    prompt,
+    videoUrl,
+    videoMimeType: getVideoSource(videoUrl)?.getMimeType(videoUrl),
+    videoSegment,
+  };
+};
+
+// How an app generated with these settings was produced
+export const getGenerationMetadata = (
+  settings: GenerationSettings,
+  videoSegment?: VideoSegment,
+  template?: PromptTemplate,
+): GenerationMetadata => ({
+  models: {spec: settings.spec.modelName, code: settings.code.modelName},
+  videoSegment: isPartialSegment(videoSegment) ? videoSegment : undefined,
+  promptTemplate: template && getTemplateReference(template),
+  settings,
+});
+
+/**
+ * Generate a content spec from a video or its transcript, with the
+ * template's code instructions appended so that it can be sent to the code
+ * stage as is.
+ *
+ * @param request - The video, template and settings to generate with.
+ * @returns The spec.
+ * @throws {StructuredOutputError} If the model does not return a valid spec.
+ */
+export async function generateSpec(request: SpecRequest): Promise<string> {
+  const {videoUrl, settings} = request;
+  const template = applyOutputLanguage(
+    request.template,
+    settings.outputLanguage,
+  );
+  const {spec} = await generateJSON<{spec: string}>({
+    ...getRequestOptions('spec', request),
+    ...getVideoInput(
+      renderSpecPrompt(template),
+      videoUrl,
+      request.videoSegment,
+    ),
+    responseSchema: SPEC_RESPONSE_SCHEMA,
+    maxRepairAttempts: MAX_REPAIR_ATTEMPTS,
+    onProgress: request.onProgress,
+    onRepair: request.onRepair,
+  });
+
+  return spec + renderCodeAddendum(template);
+}
+
+/**
+ * Generate an app's HTML document from a spec.
+ *
+ * @param request - The spec and settings to generate with.
+ * @returns The document and any problems found while extracting it.
+ * @throws {Error} If the response does not contain a document.
+ */
+export async function generateCode(
+  request: CodeRequest,
+): Promise<GeneratedCode> {
+  const response = await generateTextStream(
+    {
+      ...getRequestOptions('code', request),
+      prompt: request.spec + (request.extraInstructions ?? ''),
+      isCacheable: (text) =>
+        !!parseHTML(text, CODE_REGION_OPENER, CODE_REGION_CLOSER).code,
+    },
+    (textSoFar) => request.onProgress?.(textSoFar),
+  );
+
+  const {code, diagnostics} = parseHTML(
+    response,
+    CODE_REGION_OPENER,
+    CODE_REGION_CLOSER,
+  );
+  if (!code) {
+    throw new Error('The model response did not contain an HTML document.');
+  }
+  return {code, diagnostics};
+}
+
+/**
+ * Generate a quiz with answer keys from a video, in the audience and language
+ * of the template, or the output language from the settings if one is set.
+ *
+ * @param request - The video, template and settings to generate with.
+ * @returns The quiz.
+ * @throws {StructuredOutputError} If the model does not return a valid quiz.
+ */
+export async function generateQuiz(request: QuizRequest): Promise<Quiz> {
+  const {videoUrl, settings} = request;
+  const template = applyOutputLanguage(
+    request.template,
+    settings.outputLanguage,
+  );
+  const options = getRequestOptions('quiz', request);
+  const {questions} = await generateJSON<{questions: QuizQuestion[]}>({
+    ...options,
+    ...getVideoInput(
+      renderTemplate(QUIZ_FROM_VIDEO_PROMPT, template.variables),
+      videoUrl,
+      request.videoSegment,
+    ),
+    responseSchema: QUIZ_RESPONSE_SCHEMA,
+    validate: validateQuiz,
+    maxRepairAttempts: MAX_REPAIR_ATTEMPTS,
+    onProgress: request.onProgress,
+    onRepair: request.onRepair,
+  });
+
+  return {
+    questions,
+    createdAt: new Date().toISOString(),
+    modelName: options.modelName,
+  };
+}
+
+/**
+ * Check how well an app's code implements each item of its spec's
+ * SPECIFICATIONS list, either by asking a model to judge it or by looking
+ * for each item's key terms in the code.
+ *
+ * @param request - The spec and code, and how to judge them.
+ * @returns A status and reason for each item.
+ * @throws {Error} If the spec has no numbered list of specifications.
+ * @throws {StructuredOutputError} If the model does not return a valid
+ *     judgement.
+ */
+export async function evaluateApp(
+  request: EvaluationRequest,
+): Promise<AppEvaluation> {
+  const items = parseSpecItems(request.spec);
+  if (items.length === 0) {
+    throw new Error('The spec has no numbered list of specifications.');
+  }
+
+  if (request.method === 'heuristic') {
+    return {
+      method: 'heuristic',
+      items: evaluateWithHeuristics(items, request.code),
+      createdAt: new Date().toISOString(),
+    };
+  }
+
+  const options = getRequestOptions('evaluation', request);
+  const judgement = await generateJSON<{
+    items: Array<Omit<SpecItemEvaluation, 'text'>>;
+  }>({
+    ...options,
+    prompt: getEvaluationPrompt(items, request.code),
+    responseSchema: EVALUATION_RESPONSE_SCHEMA,
+    validate: validateJudgement(items),
+    maxRepairAttempts: MAX_REPAIR_ATTEMPTS,
+    onProgress: request.onProgress,
+  });
+
+  return {
+    method: 'model',
+    items: items.map((item) => ({
+      ...item,
+      ...judgement.items.find(({number}) => number === item.number)!,
+    })),
+    createdAt: new Date().toISOString(),
+    modelName: options.modelName,
+  };
+}
+
+/**
+ * Generate an app from a video: a spec from the video, and then code from the
+ * spec. Runs anywhere the active model provider does, including Node.
+ *
+ * @param request - The video, template and settings to generate with.
+ * @returns The spec, the code and how they were generated.
+ */
+export async function runPipeline(
+  request: PipelineRequest,
+): Promise<PipelineResult> {
+  const {onStageChange, onProgress} = request;
+
+  onStageChange?.('spec');
+  const spec = await generateSpec({
+    ...request,
+    onProgress: onProgress && ((textSoFar) => onProgress('spec', textSoFar)),
+  });
+
+  onStageChange?.('code');
+  const {code, diagnostics} = await generateCode({
+    ...request,
+    spec,
+    onProgress: onProgress && ((textSoFar) => onProgress('code', textSoFar)),
+  });
+
+  return {
+    spec,
+    code,
+    diagnostics,
+    metadata: getGenerationMetadata(
+      request.settings,
+      request.videoSegment,
+      request.template,
+    ),
+  };
+}
@@ -0,0 +1,281 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+// A way in which a generated document breaks the rules it was asked to follow
+export interface PolicyViolation {
+  kind:
+    | 'external-resource'
+    | 'missing-viewport'
+    | 'unbalanced-markup'
+    | 'truncated-markup'
+    | 'oversized'
+    | 'forbidden-api';
+  message: string;
+}
+
+// Documents larger than this are likely to be slow or padded with data
+export const MAX_DOCUMENT_SIZE = 200_000;
+
+// Elements that never have a closing tag
+const VOID_ELEMENTS = new Set([
+  'area',
+  'base',
+  'br',
+  'col',
+  'embed',
+  'hr',
+  'img',
+  'input',
+  'link',
+  'meta',
+  'param',
+  'source',
+  'track',
+  'wbr',
+]);
+
+// Elements whose closing tag may be left out
+const OPTIONAL_CLOSE_ELEMENTS = new Set([
+  'html',
+  'head',
+  'body',
+  'p',
+  'li',
+  'dt',
+  'dd',
+  'option',
+  'optgroup',
+  'tr',
+  'td',
+  'th',
+  'thead',
+  'tbody',
+  'tfoot',
+  'colgroup',
+  'caption',
+  'rt',
+  'rp',
+]);
+
+// APIs the app may not use, because they need the network, need storage that
+// the sandboxed preview does not allow, or are blocked in the sandbox
+const FORBIDDEN_APIS: Array<{pattern: RegExp; name: string; reason: string}> = [
+  {pattern: /\bfetch\s*\(/, name: 'fetch()', reason: 'makes network requests'},
+  {
+    pattern: /\bXMLHttpRequest\b/,
+    name: 'XMLHttpRequest',
+    reason: 'makes network requests',
+  },
+  {
+    pattern: /\bnew\s+WebSocket\b/,
+    name: 'WebSocket',
+    reason: 'makes network requests',
+  },
+  {
+    pattern: /\bnew\s+EventSource\b/,
+    name: 'EventSource',
+    reason: 'makes network requests',
+  },
+  {
+    pattern: /\bsendBeacon\s*\(/,
+    name: 'navigator.sendBeacon()',
+    reason: 'makes network requests',
+  },
+  {
+    pattern: /\blocalStorage\b/,
+    name: 'localStorage',
+    reason: 'is unavailable in the sandboxed preview',
+  },
+  {
+    pattern: /\bsessionStorage\b/,
+    name: 'sessionStorage',
+    reason: 'is unavailable in the sandboxed preview',
+  },
+  {
+    pattern: /\bindexedDB\b/,
+    name: 'indexedDB',
+    reason: 'is unavailable in the sandboxed preview',
+  },
+  {
+    pattern: /\bdocument\.cookie\b/,
+    name: 'document.cookie',
+    reason: 'is unavailable in the sandboxed preview',
+  },
+  {
+    pattern: /(?<![\w.])(?:window\.)?(alert|confirm|prompt)\s*\(/,
+    name: 'alert(), confirm() or prompt()',
+    reason: 'is blocked in the sandboxed preview',
+  },
+  {
+    pattern: /\bwindow\.open\s*\(/,
+    name: 'window.open()',
+    reason: 'is blocked in the sandboxed preview',
+  },
+];
+
+// Attributes that load a resource, on the elements they load it for
+const RESOURCE_ATTRIBUTES =
+  /<(script|link|img|audio|video|source|iframe|embed|object)\b[^>]*?\s(src|href|data)\s*=\s*["']?((?:https?:)?\/\/[^"'\s>]+)/gi;
+
+// Resources loaded from stylesheets, e.g. background images and fonts
+const CSS_URLS =
+  /(?:url\(\s*["']?|@import\s+["'])((?:https?:)?\/\/[^"')\s]+)/gi;
+
+const RESOURCE_NAMES: Record<string, string> = {
+  script: 'script',
+  link: 'stylesheet or font',
+  img: 'image',
+  audio: 'audio',
+  video: 'video',
+  source: 'media',
+  iframe: 'frame',
+  embed: 'embedded content',
+  object: 'embedded content',
+};
+
+// Remove comments and the contents of scripts and styles, which may contain
+// text that looks like tags
+const stripNonMarkup = (code: string) =>
+  code
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/(<script\b[^>]*>)[\s\S]*?(<\/script\s*>)/gi, '$1$2')
+    .replace(/(<style\b[^>]*>)[\s\S]*?(<\/style\s*>)/gi, '$1$2');
+
+const checkExternalResources = (code: string) => {
+  const violations: PolicyViolation[] = [];
+  const seen = new Set<string>();
+
+  const add = (type: string, url: string) => {
+    if (seen.has(url)) return;
+    seen.add(url);
+    violations.push({
+      kind: 'external-resource',
+      message: `Loads an external ${type}: ${url}`,
+    });
+  };
+
+  for (const match of stripNonMarkup(code).matchAll(RESOURCE_ATTRIBUTES)) {
+    add(RESOURCE_NAMES[match[1].toLowerCase()], match[3]);
+  }
+  for (const match of code.matchAll(CSS_URLS)) {
+    add('stylesheet resource', match[1]);
+  }
+
+  return violations;
+};
+
+const checkMarkup = (code: string) => {
+  const violations: PolicyViolation[] = [];
+  const markup = stripNonMarkup(code);
+
+  // A tag, comment or script that never ends means the document was cut off
+  if (
+    /<[a-z/!][^>]*$/i.test(markup) ||
+    /<script\b(?![\s\S]*<\/script\s*>)/i.test(markup) ||
+    !/<\/html\s*>\s*$/i.test(markup)
+  ) {
+    violations.push({
+      kind: 'truncated-markup',
+      message: 'The document appears to be cut off before its end.',
+    });
+  }
+
+  const openTags: string[] = [];
+  const unexpected = new Set<string>();
+
+  for (const match of markup.matchAll(
+    /<(\/?)([a-z][a-z0-9-]*)\b[^>]*?(\/?)>/gi,
+  )) {
+    const [, isClosing, rawName, isSelfClosing] = match;
+    const name = rawName.toLowerCase();
+    if (VOID_ELEMENTS.has(name) || isSelfClosing) continue;
+
+    if (!isClosing) {
+      openTags.push(name);
+      continue;
+    }
+
+    const index = openTags.lastIndexOf(name);
+    if (index === -1) {
+      unexpected.add(name);
+      continue;
+    }
+    // Anything opened after the matching tag and not closed must be allowed
+    // to be left open
+    for (const unclosed of openTags.splice(index)) {
+      if (unclosed !== name && !OPTIONAL_CLOSE_ELEMENTS.has(unclosed)) {
+        unexpected.add(unclosed);
+      }
+    }
+  }
+
+  const unclosed = new Set(
+    openTags.filter((name) => !OPTIONAL_CLOSE_ELEMENTS.has(name)),
+  );
+  for (const name of new Set([...unexpected, ...unclosed])) {
+    violations.push({
+      kind: 'unbalanced-markup',
+      message: `The <${name}> tags are not balanced.`,
+    });
+  }
+
+  return violations;
+};
+
+const checkForbiddenApis = (code: string) => {
+  const scripts = [
+    ...[...code.matchAll(/<script\b[^>]*>([\s\S]*?)<\/script\s*>/gi)].map(
+      (match) => match[1],
+    ),
+    // Inline event handlers, e.g. onclick="..."
+    ...[...code.matchAll(/\son[a-z]+\s*=\s*("[^"]*"|'[^']*')/gi)].map(
+      (match) => match[1],
+    ),
+  ].join('\n');
+
+  return FORBIDDEN_APIS.filter(({pattern}) => pattern.test(scripts)).map(
+    ({name, reason}): PolicyViolation => ({
+      kind: 'forbidden-api',
+      message: `Uses ${name}, which ${reason}.`,
+    }),
+  );
+};
+
+/**
+ * Check a generated document against the rules for generated apps: a single
+ * self-contained, responsive HTML document with inline styles and scripts.
+ *
+ * @param code - The generated HTML document.
+ * @returns Every rule the document breaks.
+ */
+export function checkPolicies(code: string): PolicyViolation[] {
+  if (!code) {
+    return [];
+  }
+
+  const violations: PolicyViolation[] = [
+    ...checkExternalResources(code),
+    ...checkMarkup(code),
+    ...checkForbiddenApis(code),
+  ];
+
+  if (!/<meta\b[^>]*\bname\s*=\s*["']?viewport\b/i.test(code)) {
+    violations.push({
+      kind: 'missing-viewport',
+      message:
+        'There is no viewport meta tag, so the app will not be responsive on mobile.',
+    });
+  }
+
+  if (code.length > MAX_DOCUMENT_SIZE) {
+    violations.push({
+      kind: 'oversized',
+      message: `The document is ${Math.round(code.length / 1000)} KB, more than the ${MAX_DOCUMENT_SIZE / 1000} KB limit.`,
+    });
+  }
+
+  return violations;
+}
@@ -0,0 +1,98 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+// Identifies messages sent by the bridge among everything else posted to the
+// host window
+const BRIDGE_MESSAGE_TYPE = 'video-to-learning-preview';
+
+// Something logged by the app running in the preview iframe
+export interface ConsoleEntry {
+  id: string;
+  timestamp: string;
+  // Where the entry came from: a console call, an uncaught error or an
+  // unhandled promise rejection
+  kind: 'console' | 'error' | 'rejection';
+  level: 'log' | 'info' | 'warn' | 'error' | 'debug';
+  message: string;
+  stack?: string;
+}
+
+// Forwards console calls, uncaught errors and unhandled rejections to the
+// host. Kept on a single line so that line numbers in error messages still
+// match the generated code.
+const BRIDGE_SCRIPT = `<script>(function () {
+  var send = function (kind, level, message, stack) {
+    try {
+      parent.postMessage({type: '${BRIDGE_MESSAGE_TYPE}', kind: kind, level: level, message: message, stack: stack}, '*');
+    } catch (e) {}
+  };
+  var format = function (value) {
+    if (value instanceof Error) return value.name + ': ' + value.message;
+    if (typeof value === 'object' && value !== null) {
+      try { return JSON.stringify(value); } catch (e) {}
+    }
+    return String(value);
+  };
+  ['log', 'info', 'warn', 'error', 'debug'].forEach(function (level) {
+    var original = console[level];
+    console[level] = function () {
+      send('console', level, Array.prototype.map.call(arguments, format).join(' '));
+      return original.apply(console, arguments);
+    };
+  });
+  window.addEventListener('error', function (event) {
+    send('error', 'error', event.message + (event.lineno ? ' (line ' + event.lineno + ')' : ''), event.error && event.error.stack);
+  });
+  window.addEventListener('unhandledrejection', function (event) {
+    send('rejection', 'error', 'Unhandled promise rejection: ' + format(event.reason), event.reason && event.reason.stack);
+  });
+})();</script>`.replace(/\n\s*/g, ' ');
+
+/**
+ * Add the console bridge to a generated document, as its first script so that
+ * it sees every error.
+ *
+ * @param code - The generated HTML document.
+ * @returns The document with the bridge script added.
+ */
+export function injectPreviewBridge(code: string): string {
+  // Prefer the start of the head, falling back to the start of the document
+  const anchor = [/<head[^>]*>/i, /<html[^>]*>/i, /<!DOCTYPE[^>]*>/i]
+    .map((pattern) => code.match(pattern))
+    .find((match) => match?.index !== undefined);
+  if (!anchor) {
+    return BRIDGE_SCRIPT + code;
+  }
+  const position = anchor.index! + anchor[0].length;
+  return code.substring(0, position) + BRIDGE_SCRIPT + code.substring(position);
+}
+
+// Turn a message posted by the bridge into a console entry, or return null if
+// the message did not come from the bridge
+export function parseBridgeMessage(data: unknown): ConsoleEntry | null {
+  if (
+    typeof data !== 'object' ||
+    data === null ||
+    (data as {type?: unknown}).type !== BRIDGE_MESSAGE_TYPE
+  ) {
+    return null;
+  }
+
+  const {kind, level, message, stack} = data as Record<string, unknown>;
+  return {
+    id: crypto.randomUUID(),
+    timestamp: new Date().toISOString(),
+    kind: kind === 'error' || kind === 'rejection' ? kind : 'console',
+    level: ['log', 'info', 'warn', 'error', 'debug'].includes(level as string)
+      ? (level as ConsoleEntry['level'])
+      : 'log',
+    message: String(message),
+    stack: typeof stack === 'string' ? stack : undefined,
+  };
+}
+
+// Whether an entry reports a problem that the model should fix
+export const isErrorEntry = (entry: ConsoleEntry) => entry.level === 'error';
@@ -0,0 +1,219 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {SPEC_ADDENDUM, SPEC_FROM_VIDEO_PROMPT} from '@/lib/prompts';
+import {PromptTemplateReference} from '@/lib/types';
+
+// Values filled into a template's {{variables}}. Empty values leave out the
+// template sections that depend on them.
+export interface TemplateVariables {
+  audience: string;
+  style: string;
+  length: string;
+  language: string;
+}
+
+// The prompts used to generate an app, tuned for an audience or style
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  // Incremented whenever a saved template is changed
+  version: number;
+  // Built-in templates cannot be changed or deleted, only duplicated
+  builtIn?: boolean;
+  variables: TemplateVariables;
+  // Asks the model for a spec based on the video
+  specPrompt: string;
+  // Appended to the spec to ask the model for the code
+  codeAddendum: string;
+}
+
+// The variables in the order they are edited. Their labels and example values
+// are under `templates.variables.<name>` and `templates.examples.<name>` in the
+// locale catalogs.
+export const TEMPLATE_VARIABLES: Array<keyof TemplateVariables> = [
+  'audience',
+  'style',
+  'length',
+  'language',
+];
+
+const NO_VARIABLES: TemplateVariables = {
+  audience: '',
+  style: '',
+  length: '',
+  language: '',
+};
+
+const createBuiltInTemplate = (
+  id: string,
+  name: string,
+  variables: Partial<TemplateVariables> = {},
+): PromptTemplate => ({
+  id,
+  name,
+  version: 1,
+  builtIn: true,
+  variables: {...NO_VARIABLES, ...variables},
+  specPrompt: SPEC_FROM_VIDEO_PROMPT,
+  codeAddendum: SPEC_ADDENDUM,
+});
+
+export const DEFAULT_TEMPLATE_ID = 'default';
+
+export const BUILT_IN_TEMPLATES: PromptTemplate[] = [
+  createBuiltInTemplate(DEFAULT_TEMPLATE_ID, 'Default'),
+  createBuiltInTemplate('primary-school', 'Primary school', {
+    audience: 'primary school children (ages 6 to 11)',
+    style:
+      'playful and colorful, with large controls, simple words and plenty of visual feedback',
+    length: 'Keep the spec short, with no more than 5 specifications.',
+  }),
+  createBuiltInTemplate('university', 'University', {
+    audience: 'university students',
+    style:
+      'precise and in-depth, using the correct terminology and showing the underlying formulas or rules where relevant',
+  }),
+  createBuiltInTemplate('game', 'Game-like', {
+    style:
+      'a game, with a clear goal, scoring and levels that get harder as the learner masters the idea',
+  }),
+  createBuiltInTemplate('simulation', 'Simulation', {
+    style:
+      'a simulation, where the learner changes parameters with sliders and other controls and sees the effect immediately',
+  }),
+];
+
+const TEMPLATES_STORAGE_KEY = 'promptTemplates';
+const SELECTED_TEMPLATE_STORAGE_KEY = 'selectedPromptTemplate';
+
+/**
+ * Fill a template's variables into a prompt.
+ *
+ * `{{name}}` is replaced by the value of the variable `name`, and a section
+ * between `{{#name}}` and `{{/name}}` is kept only if that value is not empty.
+ *
+ * @param text - The prompt text with template syntax.
+ * @param variables - The values of the variables.
+ * @returns The prompt.
+ */
+export function renderTemplate(
+  text: string,
+  variables: TemplateVariables,
+): string {
+  const getValue = (name: string) =>
+    (variables[name as keyof TemplateVariables] ?? '').trim();
+
+  return text
+    .replace(/\{\{#(\w+)\}\}([\s\S]*?)\{\{\/\1\}\}/g, (_, name, section) =>
+      getValue(name) ? section : '',
+    )
+    .replace(/\{\{(\w+)\}\}/g, (_, name) => getValue(name));
+}
+
+// The spec prompt and code addendum of a template, with variables filled in
+export const renderSpecPrompt = (template: PromptTemplate) =>
+  renderTemplate(template.specPrompt, template.variables);
+
+export const renderCodeAddendum = (template: PromptTemplate) =>
+  renderTemplate(template.codeAddendum, template.variables);
+
+// A template with its language replaced by the output language from the
+// settings, if one is set
+export const applyOutputLanguage = (
+  template: PromptTemplate,
+  language: string,
+): PromptTemplate =>
+  language.trim()
+    ? {...template, variables: {...template.variables, language}}
+    : template;
+
+// How an app records the template it was generated with
+export const getTemplateReference = (
+  template: PromptTemplate,
+): PromptTemplateReference => ({
+  id: template.id,
+  name: template.name,
+  version: template.version,
+});
+
+const loadCustomTemplates = (): PromptTemplate[] => {
+  try {
+    return JSON.parse(localStorage.getItem(TEMPLATES_STORAGE_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+const storeCustomTemplates = (templates: PromptTemplate[]) =>
+  localStorage.setItem(TEMPLATES_STORAGE_KEY, JSON.stringify(templates));
+
+// Every template, built-in ones first
+export const listPromptTemplates = (): PromptTemplate[] => [
+  ...BUILT_IN_TEMPLATES,
+  ...loadCustomTemplates(),
+];
+
+/**
+ * Create a custom template, or update the one with the same ID. Changing an
+ * existing template increments its version.
+ *
+ * @param template - The template to save.
+ * @returns The template as stored.
+ * @throws {Error} If the template is built in.
+ */
+export function savePromptTemplate(template: PromptTemplate): PromptTemplate {
+  if (BUILT_IN_TEMPLATES.some(({id}) => id === template.id)) {
+    throw new Error('Built-in templates cannot be changed.');
+  }
+
+  const templates = loadCustomTemplates();
+  const existing = templates.find(({id}) => id === template.id);
+  const isChanged =
+    existing && JSON.stringify(existing) !== JSON.stringify(template);
+  const saved: PromptTemplate = {
+    ...template,
+    builtIn: undefined,
+    version: existing ? existing.version + (isChanged ? 1 : 0) : 1,
+  };
+
+  storeCustomTemplates(
+    existing
+      ? templates.map((other) => (other.id === saved.id ? saved : other))
+      : [...templates, saved],
+  );
+  return saved;
+}
+
+export function deletePromptTemplate(id: string) {
+  storeCustomTemplates(
+    loadCustomTemplates().filter((other) => other.id !== id),
+  );
+  if (localStorage.getItem(SELECTED_TEMPLATE_STORAGE_KEY) === id) {
+    localStorage.removeItem(SELECTED_TEMPLATE_STORAGE_KEY);
+  }
+}
+
+// Make a new custom template that starts as a copy of another
+export const duplicatePromptTemplate = (
+  template: PromptTemplate,
+): PromptTemplate =>
+  savePromptTemplate({
+    ...template,
+    id: crypto.randomUUID(),
+    name: `${template.name} (copy)`,
+    builtIn: undefined,
+  });
+
+// The template used for new apps, falling back to the default one
+export const getSelectedPromptTemplate = (): PromptTemplate => {
+  const id = localStorage.getItem(SELECTED_TEMPLATE_STORAGE_KEY);
+  const templates = listPromptTemplates();
+  return templates.find((template) => template.id === id) ?? templates[0];
+};
+
+export const selectPromptTemplate = (id: string) =>
+  localStorage.setItem(SELECTED_TEMPLATE_STORAGE_KEY, id);
@@ -4,6 +4,13 @@
 */
 /* tslint:disable */
 
+import {JSONSchema} from '@/lib/schema';
+import {SpecItem} from '@/lib/specStructure';
+
+// SPEC_FROM_VIDEO_PROMPT and SPEC_ADDENDUM are the texts of the default prompt
+// template (see lib/promptTemplates.ts). Sections between {{#name}} and
+// {{/name}} are only included when the variable `name` is set.
+
 export const SPEC_FROM_VIDEO_PROMPT = `You are a pedagogist and product designer with deep expertise in crafting engaging learning experiences via interactive web apps.
 
 Examine the contents of the attached video. Then, write a detailed and carefully considered spec for an interactive web app designed to complement the video and reinforce its key idea or ideas. The recipient of the spec does not have access to the video, so the spec must be thorough and self-contained (the spec must not mention that it is based on a video). Here is an example of a spec written in response to a video about functional harmony:
@@ -19,11 +26,212 @@ SPECIFICATIONS:
 4. The app must provide a way for users to play different chords in sequence and see the results.
 [etc.]"
 
-The goal of the app that is to be built based on the spec is to enhance understanding through simple and playful design. The provided spec should not be overly complex, i.e., a junior web developer should be able to implement it in a single html file (with all styles and scripts inline). Most importantly, the spec must clearly outline the core mechanics of the app, and those mechanics must be highly effective in reinforcing the given video's key idea(s).
+The goal of the app that is to be built based on the spec is to enhance understanding through simple and playful design. The provided spec should not be overly complex, i.e., a junior web developer should be able to implement it in a single html file (with all styles and scripts inline). Most importantly, the spec must clearly outline the core mechanics of the app, and those mechanics must be highly effective in reinforcing the given video's key idea(s).{{#audience}}
+
+The app is intended for {{audience}}. Pitch its content, vocabulary and difficulty at that level.{{/audience}}{{#style}}
+
+The app should be {{style}}.{{/style}}{{#length}}
+
+{{length}}{{/length}}{{#language}}
+
+Write the spec in {{language}}, whatever the language of the video.{{/language}}
 
 Provide the result as a JSON object containing a single field called "spec", whose value is the spec for the web app.`;
 
+export const SPEC_RESPONSE_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    spec: {
+      type: 'string',
+      description: 'The spec for the web app.',
+      minLength: 100,
+    },
+  },
+  required: ['spec'],
+};
+
+// Appended to a prompt when the model's previous answer to it did not match
+// the required JSON schema
+export const getJSONRepairPrompt = (
+  prompt: string,
+  previousResponse: string,
+  issues: string[],
+) => `${prompt}
+
+A previous answer to this request was rejected because it was not valid JSON matching the required format. The problems were:
+${issues.map((issue) => `- ${issue}`).join('\n')}
+
+The rejected answer was:
+${previousResponse.slice(0, 8000)}
+
+Answer again, providing only a complete, valid JSON object that fixes these problems.`;
+
+// Asks for a quiz on the video. Only the audience and language variables of
+// the prompt template are used.
+export const QUIZ_FROM_VIDEO_PROMPT = `You are a pedagogist with deep expertise in assessing learning.
+
+Examine the contents of the attached video. Then, write a short quiz that checks whether a learner has understood the video's key idea or ideas. The quiz must have between 5 and 8 questions: mostly multiple-choice questions with 4 choices each, and one or two short-answer questions that can be answered in a few words. The questions must test understanding rather than recall of incidental details, and must be answerable without the video at hand (do not refer to "the video").{{#audience}}
+
+The quiz is intended for {{audience}}. Pitch its vocabulary and difficulty at that level.{{/audience}}{{#language}}
+
+Write the quiz in {{language}}, whatever the language of the video.{{/language}}
+
+Provide the result as a JSON object with a field called "questions", a list of questions that each have these fields:
+- "type": "multiple-choice" or "short-answer".
+- "question": the question.
+- "choices": for multiple-choice questions, the choices; for short-answer questions, an empty list.
+- "answer": for multiple-choice questions, the correct choice, written exactly as in "choices"; for short-answer questions, a model answer.
+- "acceptedAnswers": for short-answer questions, every short answer (one to a few words) that should be marked correct, including common alternative wordings; for multiple-choice questions, an empty list.
+- "explanation": why the answer is correct, shown to the learner after they answer.`;
+
+export const QUIZ_RESPONSE_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    questions: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        properties: {
+          type: {type: 'string', enum: ['multiple-choice', 'short-answer']},
+          question: {type: 'string', minLength: 1},
+          choices: {type: 'array', items: {type: 'string', minLength: 1}},
+          answer: {type: 'string', minLength: 1},
+          acceptedAnswers: {
+            type: 'array',
+            items: {type: 'string', minLength: 1},
+          },
+          explanation: {type: 'string', minLength: 1},
+        },
+        required: [
+          'type',
+          'question',
+          'choices',
+          'answer',
+          'acceptedAnswers',
+          'explanation',
+        ],
+      },
+    },
+  },
+  required: ['questions'],
+};
+
 export const CODE_REGION_OPENER = '```';
 export const CODE_REGION_CLOSER = '```';
 
-export const SPEC_ADDENDUM = `\n\nThe app must be fully responsive and function properly on both desktop and mobile. Provide the code as a single, self-contained HTML document. All styles and scripts must be inline. In the result, encase the code between "${CODE_REGION_OPENER}" and "${CODE_REGION_CLOSER}" for easy parsing.`;
+export const SPEC_ADDENDUM = `\n\nThe app must be fully responsive and function properly on both desktop and mobile. Provide the code as a single, self-contained HTML document. All styles and scripts must be inline. In the result, encase the code between "${CODE_REGION_OPENER}" and "${CODE_REGION_CLOSER}" for easy parsing.{{#language}} All text shown in the app must be in {{language}}, and if that language is written from right to left, the app must be laid out from right to left.{{/language}}`;
+
+// Markers around each edit in a patch returned by the refinement prompt
+export const EDIT_SEARCH_MARKER = '<<<<<<< SEARCH';
+export const EDIT_DIVIDER_MARKER = '=======';
+export const EDIT_REPLACE_MARKER = '>>>>>>> REPLACE';
+
+// Asks the model to change an existing app according to an instruction,
+// given the earlier instructions in the conversation for context
+export const getRefinementPrompt = (
+  spec: string,
+  code: string,
+  previousInstructions: string[],
+  instruction: string,
+) => `You are an expert web developer. You previously built an interactive learning web app from the spec below, and are now refining it based on feedback.
+
+SPEC:
+${spec}
+
+CURRENT CODE:
+${CODE_REGION_OPENER}html
+${code}
+${CODE_REGION_CLOSER}
+${
+  previousInstructions.length > 0
+    ? `
+Earlier requested changes, which have already been made:
+${previousInstructions.map((previous) => `- ${previous}`).join('\n')}
+`
+    : ''
+}
+REQUESTED CHANGE:
+${instruction}
+
+Make the requested change while keeping everything else that already works. Start with one or two sentences describing what you changed. Then provide the change in one of two ways:
+
+1. For small changes, provide one or more edits in this format, where the SEARCH section exactly matches a unique part of the current code (including whitespace) and the REPLACE section is what it should become:
+${EDIT_SEARCH_MARKER}
+[existing code]
+${EDIT_DIVIDER_MARKER}
+[new code]
+${EDIT_REPLACE_MARKER}
+
+2. For large changes, provide the complete revised code as a single, self-contained HTML document, encased between "${CODE_REGION_OPENER}" and "${CODE_REGION_CLOSER}".`;
+
+// A refinement instruction asking the model to fix errors that occurred while
+// the app was running
+export const getFixErrorsInstruction = (errors: string[]) =>
+  `Fix the following errors that occurred while running the app:
+${errors.map((error) => `- ${error}`).join('\n')}`;
+
+// Appended to a spec when regenerating code that broke the rules for
+// generated apps
+export const getPolicyViolationsAddendum = (violations: string[]) =>
+  `\n\nA previous attempt at this app broke the following rules. Make sure the new code does not:
+${violations.map((violation) => `- ${violation}`).join('\n')}`;
+
+// Asks the model to judge whether an app's code implements each item of its
+// spec
+export const getEvaluationPrompt = (items: SpecItem[], code: string) =>
+  `You are reviewing a web app that was built from a spec. For each numbered specification below, judge whether the app's code implements it:
+- "met": the specification is fully implemented.
+- "partial": it is implemented in part, or in a way that would not work as specified.
+- "missing": it is not implemented.
+
+SPECIFICATIONS:
+${items.map((item) => `${item.number}. ${item.text}`).join('\n')}
+
+The app's code:
+${CODE_REGION_OPENER}html
+${code}
+${CODE_REGION_CLOSER}
+
+Provide the result as a JSON object with a field called "items", a list with one entry for each specification, in order. Each entry has the fields "number" (the specification's number), "status" ("met", "partial" or "missing") and "reason" (one or two sentences explaining the judgement, referring to the code where helpful).`;
+
+export const EVALUATION_RESPONSE_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    items: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        properties: {
+          number: {type: 'integer'},
+          status: {type: 'string', enum: ['met', 'partial', 'missing']},
+          reason: {type: 'string', minLength: 1},
+        },
+        required: ['number', 'status', 'reason'],
+      },
+    },
+  },
+  required: ['items'],
+};
+
+// Appended to a spec when regenerating code that did not implement some of
+// the spec's items, with the reason each was judged incomplete
+export const getSpecGapsAddendum = (gaps: Array<SpecItem & {reason: string}>) =>
+  `\n\nA previous attempt at this app did not fully implement the following specifications. Make sure the new code implements each of them completely:
+${gaps.map((gap) => `- ${gap.number}. ${gap.text} (${gap.reason})`).join('\n')}`;
+
+// Appended to a spec or quiz prompt in place of the video, when generating
+// from a transcript
+export const getTranscriptAddendum = (
+  transcript: string,
+  hasTimestamps: boolean,
+) =>
+  `\n\nNo video is attached. Instead, here is a transcript of it; treat it as the contents of the video.${
+    hasTimestamps
+      ? ' Each line starts with the time in the video at which it is spoken. Where it helps, cite these timestamps (e.g. "see 2:15") so that learners can find the part of the video an idea comes from.'
+      : ''
+  }
+
+TRANSCRIPT:
+${transcript}`;
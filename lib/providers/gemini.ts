@@ -0,0 +1,246 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {
+  FileState,
+  FinishReason,
+  GenerateContentConfig,
+  GenerateContentParameters,
+  GenerateContentResponse,
+  GenerateContentResponseUsageMetadata,
+  GoogleGenAI,
+  MediaModality,
+  Part,
+} from '@google/genai';
+import {
+  GenerateTextOptions,
+  GenerationResult,
+  ModelProvider,
+  TextChunkHandler,
+  TokenUsage,
+  UploadedFile,
+} from '@/lib/providers/types';
+import {isPartialSegment} from '@/lib/timestamps';
+
+interface GeminiProviderConfig {
+  apiKey?: string;
+}
+
+// How often to check whether an uploaded file has finished processing
+const FILE_PROCESSING_POLL_INTERVAL_MS = 2000;
+
+/**
+ * Create a provider backed by the Gemini API.
+ *
+ * @param config - The API key to authenticate requests with.
+ * @returns A provider that sends requests to Gemini.
+ */
+export function createGeminiProvider(
+  config: GeminiProviderConfig,
+): ModelProvider {
+  const createClient = () => {
+    if (!config.apiKey) {
+      throw new Error('Gemini API key is missing or empty');
+    }
+    return new GoogleGenAI({apiKey: config.apiKey});
+  };
+
+  const buildRequest = (
+    options: GenerateTextOptions,
+  ): GenerateContentParameters => {
+    const {
+      modelName,
+      prompt,
+      videoUrl,
+      videoMimeType = 'video/mp4',
+      videoSegment,
+      temperature = 0.75,
+    } = options;
+
+    const parts: Part[] = [{text: prompt}];
+
+    if (videoUrl) {
+      try {
+        const videoPart: Part = {
+          fileData: {
+            mimeType: videoMimeType,
+            fileUri: videoUrl,
+          },
+        };
+        // Limit the model to a clip of the video
+        if (isPartialSegment(videoSegment)) {
+          const {start, end} = videoSegment!;
+          videoPart.videoMetadata = {
+            startOffset: start !== undefined ? `${start}s` : undefined,
+            endOffset: end !== undefined ? `${end}s` : undefined,
+          };
+        }
+        parts.push(videoPart);
+      } catch (error) {
+        console.error('Error processing video input:', error);
+        throw new Error(`Failed to process video input from URL: ${videoUrl}`);
+      }
+    }
+
+    const generationConfig: GenerateContentConfig = {
+      temperature,
+      maxOutputTokens: options.maxOutputTokens,
+      safetySettings: options.safetySettings,
+      abortSignal: options.signal,
+    };
+
+    if (options.responseSchema) {
+      generationConfig.responseMimeType = 'application/json';
+      generationConfig.responseJsonSchema = options.responseSchema;
+    }
+
+    return {
+      model: modelName,
+      contents: [{role: 'user', parts}],
+      config: generationConfig,
+    };
+  };
+
+  // Throw if the response was blocked or stopped before completing. Streamed
+  // chunks only carry a finish reason on the last one, so `isFinal` controls
+  // whether a missing candidate is an error.
+  const checkResponse = (response: GenerateContentResponse, isFinal = true) => {
+    // Check for prompt blockage
+    if (response.promptFeedback?.blockReason) {
+      throw new Error(
+        `Content generation failed: Prompt blocked (reason: ${response.promptFeedback.blockReason})`,
+      );
+    }
+
+    // Check for response blockage
+    if (!response.candidates || response.candidates.length === 0) {
+      if (!isFinal) return;
+      throw new Error('Content generation failed: No candidates returned.');
+    }
+
+    const firstCandidate = response.candidates[0];
+
+    // Check for finish reasons other than STOP
+    if (
+      firstCandidate.finishReason &&
+      firstCandidate.finishReason !== FinishReason.STOP
+    ) {
+      if (firstCandidate.finishReason === FinishReason.SAFETY) {
+        throw new Error(
+          'Content generation failed: Response blocked due to safety settings.',
+        );
+      } else {
+        throw new Error(
+          `Content generation failed: Stopped due to ${firstCandidate.finishReason}.`,
+        );
+      }
+    }
+  };
+
+  // Split the prompt tokens into those for the video and the rest. Thinking
+  // tokens are billed as output.
+  const getUsage = (
+    metadata?: GenerateContentResponseUsageMetadata,
+  ): TokenUsage | undefined => {
+    if (!metadata) return undefined;
+    const videoTokens = (metadata.promptTokensDetails ?? [])
+      .filter(
+        ({modality}) =>
+          modality === MediaModality.VIDEO || modality === MediaModality.AUDIO,
+      )
+      .reduce((total, {tokenCount = 0}) => total + tokenCount, 0);
+    return {
+      promptTokens: (metadata.promptTokenCount ?? 0) - videoTokens,
+      videoTokens,
+      outputTokens:
+        (metadata.candidatesTokenCount ?? 0) +
+        (metadata.thoughtsTokenCount ?? 0),
+    };
+  };
+
+  const generate = async (
+    options: GenerateTextOptions,
+  ): Promise<GenerationResult> => {
+    const ai = createClient();
+    const request = buildRequest(options);
+
+    try {
+      const response = await ai.models.generateContent(request);
+      checkResponse(response);
+      return {
+        text: response.text ?? '',
+        usage: getUsage(response.usageMetadata),
+      };
+    } catch (error) {
+      console.error(
+        'An error occurred during Gemini API call or response processing:',
+        error,
+      );
+      throw error;
+    }
+  };
+
+  const generateStream = async (
+    options: GenerateTextOptions,
+    onChunk: TextChunkHandler,
+  ): Promise<GenerationResult> => {
+    const ai = createClient();
+    const request = buildRequest(options);
+
+    try {
+      const stream = await ai.models.generateContentStream(request);
+      let text = '';
+      let usage: TokenUsage | undefined;
+      for await (const chunk of stream) {
+        checkResponse(chunk, false);
+        // Each chunk reports the usage so far
+        usage = getUsage(chunk.usageMetadata) ?? usage;
+        const chunkText = chunk.text ?? '';
+        if (chunkText) {
+          text += chunkText;
+          onChunk(chunkText);
+        }
+      }
+      return {text, usage};
+    } catch (error) {
+      console.error(
+        'An error occurred during Gemini API call or response processing:',
+        error,
+      );
+      throw error;
+    }
+  };
+
+  const uploadFile = async (
+    file: Blob,
+    mimeType: string,
+    displayName: string,
+  ): Promise<UploadedFile> => {
+    const ai = createClient();
+    let uploaded = await ai.files.upload({
+      file,
+      config: {mimeType, displayName},
+    });
+
+    // Videos must finish processing before they can be used in a prompt
+    while (uploaded.state === FileState.PROCESSING) {
+      await new Promise((resolve) =>
+        setTimeout(resolve, FILE_PROCESSING_POLL_INTERVAL_MS),
+      );
+      uploaded = await ai.files.get({name: uploaded.name!});
+    }
+
+    if (uploaded.state === FileState.FAILED || !uploaded.uri) {
+      throw new Error(
+        `Failed to process uploaded file: ${uploaded.error?.message || 'unknown error'}`,
+      );
+    }
+
+    return {uri: uploaded.uri, mimeType: uploaded.mimeType || mimeType};
+  };
+
+  return {name: 'gemini', generate, generateStream, uploadFile};
+}
@@ -0,0 +1,66 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {createGeminiProvider} from '@/lib/providers/gemini';
+import {createOpenAICompatibleProvider} from '@/lib/providers/openaiCompatible';
+import {
+  createRecordingProvider,
+  createReplayProvider,
+} from '@/lib/providers/replay';
+import {ModelProvider} from '@/lib/providers/types';
+
+export type ProviderName = 'gemini' | 'openai' | 'replay' | 'record';
+
+const DEFAULT_FIXTURES_URL = 'data/fixtures/replay.json';
+
+const env: Record<string, string | undefined> = globalThis.process?.env ?? {};
+
+// Build the provider selected by the MODEL_PROVIDER environment variable
+export function createProviderFromEnv(): ModelProvider {
+  const providerName = (env.MODEL_PROVIDER || 'gemini') as ProviderName;
+
+  const gemini = () =>
+    createGeminiProvider({apiKey: env.GEMINI_API_KEY || env.API_KEY});
+
+  switch (providerName) {
+    case 'gemini':
+      return gemini();
+    case 'openai':
+      return createOpenAICompatibleProvider({
+        baseUrl: env.OPENAI_BASE_URL || 'http://localhost:8000/v1',
+        apiKey: env.OPENAI_API_KEY,
+      });
+    case 'replay':
+      return createReplayProvider({
+        fixturesUrl: env.REPLAY_FIXTURES_URL || DEFAULT_FIXTURES_URL,
+      });
+    case 'record': {
+      const recorder = createRecordingProvider(gemini());
+      // Recordings can be saved as a fixture file from the dev console
+      Object.assign(globalThis, {
+        exportReplayFixtures: recorder.exportFixtures,
+      });
+      return recorder;
+    }
+    default:
+      throw new Error(`Unknown model provider: ${providerName}`);
+  }
+}
+
+let activeProvider: ModelProvider | null = null;
+
+// Get the provider that generation requests are currently sent to
+export function getModelProvider(): ModelProvider {
+  if (!activeProvider) {
+    activeProvider = createProviderFromEnv();
+  }
+  return activeProvider;
+}
+
+// Replace the provider that generation requests are sent to
+export function setModelProvider(provider: ModelProvider) {
+  activeProvider = provider;
+}
@@ -0,0 +1,180 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {
+  GenerateTextOptions,
+  GenerationResult,
+  ModelProvider,
+  ProviderRequestError,
+  TextChunkHandler,
+  TokenUsage,
+} from '@/lib/providers/types';
+import {addMediaFragment} from '@/lib/timestamps';
+
+interface OpenAICompatibleProviderConfig {
+  // Base URL of the API, e.g. http://localhost:8000/v1
+  baseUrl: string;
+  apiKey?: string;
+}
+
+const checkFinishReason = (finishReason?: string | null) => {
+  if (finishReason && finishReason !== 'stop') {
+    throw new Error(
+      `Content generation failed: Stopped due to ${finishReason}.`,
+    );
+  }
+};
+
+/**
+ * Create a provider that talks to any server implementing the OpenAI chat
+ * completions API, such as a locally hosted model.
+ *
+ * @param config - Where the server lives and how to authenticate with it.
+ * @returns A provider that sends requests to the chat completions endpoint.
+ */
+export function createOpenAICompatibleProvider(
+  config: OpenAICompatibleProviderConfig,
+): ModelProvider {
+  const endpoint = `${config.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  const request = async (options: GenerateTextOptions, stream: boolean) => {
+    const {
+      modelName,
+      prompt,
+      videoUrl,
+      videoSegment,
+      temperature = 0.75,
+    } = options;
+
+    const content: Array<Record<string, unknown>> = [
+      {type: 'text', text: prompt},
+    ];
+
+    // Servers that accept video (e.g. vLLM) take it as a `video_url` part.
+    // There is no standard way to pass a segment, so it is sent as a media
+    // fragment for servers that understand one.
+    if (videoUrl) {
+      content.push({
+        type: 'video_url',
+        video_url: {url: addMediaFragment(videoUrl, videoSegment)},
+      });
+    }
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+    };
+    if (config.apiKey) {
+      headers['Authorization'] = `Bearer ${config.apiKey}`;
+    }
+
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers,
+      signal: options.signal,
+      body: JSON.stringify({
+        model: modelName,
+        messages: [{role: 'user', content}],
+        temperature,
+        max_tokens: options.maxOutputTokens,
+        stream,
+        // Ask for the usage in the last chunk of a streamed response
+        stream_options: stream ? {include_usage: true} : undefined,
+        response_format: options.responseSchema && {
+          type: 'json_schema',
+          json_schema: {name: 'response', schema: options.responseSchema},
+        },
+      }),
+    });
+
+    if (!response.ok) {
+      const body = await response.text();
+      throw new ProviderRequestError(
+        `Content generation failed: ${response.status} ${response.statusText} ${body}`.trim(),
+        response.status,
+      );
+    }
+
+    return response;
+  };
+
+  // The API does not report video tokens separately
+  const getUsage = (usage?: {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+  }): TokenUsage | undefined =>
+    usage && {
+      promptTokens: usage.prompt_tokens ?? 0,
+      videoTokens: 0,
+      outputTokens: usage.completion_tokens ?? 0,
+    };
+
+  const generate = async (
+    options: GenerateTextOptions,
+  ): Promise<GenerationResult> => {
+    const response = await request(options, false);
+    const data = await response.json();
+    const choice = data?.choices?.[0];
+
+    if (!choice) {
+      throw new Error('Content generation failed: No choices returned.');
+    }
+
+    checkFinishReason(choice.finish_reason);
+
+    return {text: choice.message?.content ?? '', usage: getUsage(data.usage)};
+  };
+
+  const generateStream = async (
+    options: GenerateTextOptions,
+    onChunk: TextChunkHandler,
+  ): Promise<GenerationResult> => {
+    const response = await request(options, true);
+
+    if (!response.body) {
+      throw new Error('Content generation failed: Response has no body.');
+    }
+
+    const reader = response.body
+      .pipeThrough(new TextDecoderStream())
+      .getReader();
+    let text = '';
+    let buffer = '';
+    let usage: TokenUsage | undefined;
+
+    // The response is a series of server-sent events, one JSON delta per
+    // `data:` line, terminated by `data: [DONE]`
+    while (true) {
+      const {done, value} = await reader.read();
+      if (done) break;
+      buffer += value;
+
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+
+      for (const line of lines) {
+        const data = line.trim();
+        if (!data.startsWith('data:')) continue;
+
+        const payload = data.slice('data:'.length).trim();
+        if (payload === '[DONE]') return {text, usage};
+
+        const event = JSON.parse(payload);
+        usage = getUsage(event?.usage) ?? usage;
+        const choice = event?.choices?.[0];
+        const chunkText: string = choice?.delta?.content ?? '';
+        if (chunkText) {
+          text += chunkText;
+          onChunk(chunkText);
+        }
+        checkFinishReason(choice?.finish_reason);
+      }
+    }
+
+    return {text, usage};
+  };
+
+  return {name: 'openai', generate, generateStream};
+}
@@ -0,0 +1,176 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {
+  GenerateTextOptions,
+  GenerationResult,
+  ModelProvider,
+  TextChunkHandler,
+  TokenUsage,
+  UploadedFile,
+} from '@/lib/providers/types';
+import {addMediaFragment} from '@/lib/timestamps';
+import {VideoSegment} from '@/lib/types';
+
+export interface ReplayFixture {
+  prompt: string;
+  videoUrl?: string;
+  videoSegment?: VideoSegment;
+  response: string;
+  // The usage reported when the response was recorded
+  usage?: TokenUsage;
+}
+
+export interface ReplayFixtureFile {
+  fixtures: ReplayFixture[];
+}
+
+interface ReplayProviderConfig {
+  // Either the fixtures themselves or a URL to fetch them from
+  fixtures?: ReplayFixture[];
+  fixturesUrl?: string;
+  // How streamed responses are paced, to mimic a live model
+  streamChunkSize?: number;
+  streamChunkDelayMs?: number;
+}
+
+// Prefix of the URIs given to files "uploaded" to the replay provider
+export const LOCAL_FILE_URI_PREFIX = 'local-file://';
+
+// Fixtures are looked up by the exact prompt, video URL and segment of a
+// request
+export const getFixtureKey = (
+  prompt: string,
+  videoUrl?: string,
+  videoSegment?: VideoSegment,
+) => `${addMediaFragment(videoUrl || '', videoSegment)}\n${prompt}`;
+
+/**
+ * Create a provider that serves canned responses instead of calling a model,
+ * so the app can run without network access or an API key.
+ *
+ * @param config - The fixtures to serve, or where to load them from.
+ * @returns A provider that answers requests from the fixtures.
+ */
+export function createReplayProvider(
+  config: ReplayProviderConfig,
+): ModelProvider {
+  let fixturesPromise: Promise<Map<string, ReplayFixture>> | null = null;
+
+  const loadFixtures = async () => {
+    let fixtures = config.fixtures || [];
+
+    if (config.fixturesUrl) {
+      const response = await fetch(config.fixturesUrl);
+      if (!response.ok) {
+        throw new Error(
+          `Failed to load replay fixtures from ${config.fixturesUrl}`,
+        );
+      }
+      const file: ReplayFixtureFile = await response.json();
+      fixtures = [...fixtures, ...file.fixtures];
+    }
+
+    return new Map(
+      fixtures.map((fixture) => [
+        getFixtureKey(fixture.prompt, fixture.videoUrl, fixture.videoSegment),
+        fixture,
+      ]),
+    );
+  };
+
+  const generate = async (
+    options: GenerateTextOptions,
+  ): Promise<GenerationResult> => {
+    if (!fixturesPromise) {
+      fixturesPromise = loadFixtures();
+      // Allow a failed load to be retried on the next request
+      fixturesPromise.catch(() => (fixturesPromise = null));
+    }
+    const fixtures = await fixturesPromise;
+
+    const fixture = fixtures.get(
+      getFixtureKey(options.prompt, options.videoUrl, options.videoSegment),
+    );
+
+    if (fixture === undefined) {
+      throw new Error(
+        `No replay fixture matches this request (video: ${options.videoUrl || 'none'}).`,
+      );
+    }
+
+    return {text: fixture.response, usage: fixture.usage};
+  };
+
+  const generateStream = async (
+    options: GenerateTextOptions,
+    onChunk: TextChunkHandler,
+  ): Promise<GenerationResult> => {
+    const {streamChunkSize = 256, streamChunkDelayMs = 15} = config;
+    const result = await generate(options);
+
+    for (let i = 0; i < result.text.length; i += streamChunkSize) {
+      await new Promise((resolve) => setTimeout(resolve, streamChunkDelayMs));
+      onChunk(result.text.slice(i, i + streamChunkSize));
+    }
+
+    return result;
+  };
+
+  // Stand in for a real upload with a stable URI, so that fixtures can refer
+  // to uploaded files by name
+  const uploadFile = async (
+    _file: Blob,
+    mimeType: string,
+    displayName: string,
+  ): Promise<UploadedFile> => ({
+    uri: `${LOCAL_FILE_URI_PREFIX}${encodeURIComponent(displayName)}`,
+    mimeType,
+  });
+
+  return {name: 'replay', generate, generateStream, uploadFile};
+}
+
+/**
+ * Wrap a provider so that every successful response is recorded as a replay
+ * fixture.
+ *
+ * @param provider - The provider whose responses should be recorded.
+ * @returns The wrapped provider and a way to read back the recordings.
+ */
+export function createRecordingProvider(
+  provider: ModelProvider,
+): ModelProvider & {
+  exportFixtures: () => ReplayFixtureFile;
+} {
+  const recorded = new Map<string, ReplayFixture>();
+
+  const record = (options: GenerateTextOptions, result: GenerationResult) => {
+    const key = getFixtureKey(
+      options.prompt,
+      options.videoUrl,
+      options.videoSegment,
+    );
+    recorded.set(key, {
+      prompt: options.prompt,
+      videoUrl: options.videoUrl,
+      videoSegment: options.videoSegment,
+      response: result.text,
+      usage: result.usage,
+    });
+    return result;
+  };
+
+  return {
+    name: `record:${provider.name}`,
+    generate: async (options) =>
+      record(options, await provider.generate(options)),
+    generateStream: async (options, onChunk) =>
+      record(options, await provider.generateStream(options, onChunk)),
+    uploadFile: provider.uploadFile,
+    exportFixtures: () => ({fixtures: [...recorded.values()]}),
+  };
+}
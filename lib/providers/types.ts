@@ -0,0 +1,77 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {SafetySetting} from '@google/genai';
+import {JSONSchema} from '@/lib/schema';
+import {VideoSegment} from '@/lib/types';
+
+export interface GenerateTextOptions {
+  modelName: string;
+  prompt: string;
+  videoUrl?: string;
+  videoMimeType?: string;
+  // Only show the model this part of the video
+  videoSegment?: VideoSegment;
+  temperature?: number;
+  // The most tokens the model may respond with
+  maxOutputTokens?: number;
+  safetySettings?: SafetySetting[];
+  // Ask the model to answer with JSON conforming to this schema
+  responseSchema?: JSONSchema;
+  // Stops the request when aborted
+  signal?: AbortSignal;
+}
+
+// Thrown when the model server rejects a request. The status tells whether it
+// is worth trying again.
+export class ProviderRequestError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+  ) {
+    super(message);
+    this.name = 'ProviderRequestError';
+  }
+}
+
+// How many tokens a request used. Video tokens include the video's audio and
+// are not part of the prompt tokens.
+export interface TokenUsage {
+  promptTokens: number;
+  videoTokens: number;
+  outputTokens: number;
+}
+
+export interface GenerationResult {
+  text: string;
+  // Missing if the provider does not report usage
+  usage?: TokenUsage;
+}
+
+// A file made available to the model, to be referenced by its URI
+export interface UploadedFile {
+  uri: string;
+  mimeType: string;
+}
+
+// Receives each piece of text as it arrives from a streaming response
+export type TextChunkHandler = (chunk: string) => void;
+
+// A backend capable of turning a prompt (and optionally a video) into text.
+export interface ModelProvider {
+  name: string;
+  generate: (options: GenerateTextOptions) => Promise<GenerationResult>;
+  generateStream: (
+    options: GenerateTextOptions,
+    onChunk: TextChunkHandler,
+  ) => Promise<GenerationResult>;
+  // Only available for providers that can receive video files
+  uploadFile?: (
+    file: Blob,
+    mimeType: string,
+    displayName: string,
+  ) => Promise<UploadedFile>;
+}
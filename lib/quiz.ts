@@ -0,0 +1,74 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {QuizQuestion} from '@/lib/types';
+
+// Compare short answers regardless of case, punctuation and spacing
+const normalizeAnswer = (answer: string) =>
+  answer
+    .toLowerCase()
+    .normalize('NFKC')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+
+/**
+ * Check the parts of a generated quiz that its JSON schema cannot: that
+ * multiple-choice questions have choices and their answer is one of them, and
+ * that short-answer questions have answers to compare with.
+ *
+ * @param quiz - The quiz as returned by the model.
+ * @returns A human-readable description of each problem found.
+ */
+export function validateQuiz(quiz: {questions: QuizQuestion[]}): string[] {
+  const issues: string[] = [];
+
+  quiz.questions.forEach((question, index) => {
+    const path = `response.questions[${index}]`;
+    if (question.type === 'multiple-choice') {
+      if (question.choices.length < 2) {
+        issues.push(`${path}.choices should have at least 2 choices`);
+      }
+      if (new Set(question.choices).size !== question.choices.length) {
+        issues.push(`${path}.choices should not repeat a choice`);
+      }
+      if (!question.choices.includes(question.answer)) {
+        issues.push(`${path}.answer should be one of its choices`);
+      }
+    } else if (!question.acceptedAnswers.some(normalizeAnswer)) {
+      issues.push(`${path}.acceptedAnswers should have at least 1 answer`);
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Mark a learner's answer to a question. A short answer is correct if it
+ * matches an accepted answer or the model answer, or contains an accepted
+ * answer as a whole phrase.
+ *
+ * @param question - The question that was answered.
+ * @param answer - The chosen choice or the typed answer.
+ * @returns Whether the answer is correct.
+ */
+export function isCorrectAnswer(question: QuizQuestion, answer: string) {
+  if (question.type === 'multiple-choice') {
+    return answer === question.answer;
+  }
+
+  const normalized = normalizeAnswer(answer);
+  if (!normalized) {
+    return false;
+  }
+  if (normalized === normalizeAnswer(question.answer)) {
+    return true;
+  }
+  return question.acceptedAnswers
+    .map(normalizeAnswer)
+    .some(
+      (accepted) => accepted && ` ${normalized} `.includes(` ${accepted} `),
+    );
+}
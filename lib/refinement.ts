@@ -0,0 +1,144 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {HTMLDiagnostic, parseHTML} from '@/lib/parse';
+import {
+  CODE_REGION_CLOSER,
+  CODE_REGION_OPENER,
+  EDIT_DIVIDER_MARKER,
+  EDIT_REPLACE_MARKER,
+  EDIT_SEARCH_MARKER,
+} from '@/lib/prompts';
+
+// A single search-and-replace edit to a document
+export interface CodeEdit {
+  search: string;
+  replace: string;
+}
+
+export interface RefinementResult {
+  code: string;
+  // The model's description of what it changed, if it gave one
+  summary?: string;
+  // How the change was delivered
+  kind: 'edits' | 'document';
+  diagnostics: HTMLDiagnostic[];
+}
+
+const escapeRegExp = (text: string) =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const EDIT_BLOCK = new RegExp(
+  `${escapeRegExp(EDIT_SEARCH_MARKER)}[^\\n]*\\n([\\s\\S]*?)\\n?${escapeRegExp(EDIT_DIVIDER_MARKER)}[^\\n]*\\n([\\s\\S]*?)\\n?${escapeRegExp(EDIT_REPLACE_MARKER)}`,
+  'g',
+);
+
+// Find every search-and-replace edit in a model response
+export const parseEdits = (str: string): CodeEdit[] =>
+  [...str.matchAll(EDIT_BLOCK)].map((match) => ({
+    search: match[1],
+    replace: match[2],
+  }));
+
+/**
+ * Apply search-and-replace edits to a document, in order.
+ *
+ * @param code - The document to edit.
+ * @param edits - The edits to apply.
+ * @returns The edited document.
+ * @throws {Error} If the search text of an edit is empty or cannot be found.
+ */
+export function applyEdits(code: string, edits: CodeEdit[]): string {
+  return edits.reduce((result, edit, index) => {
+    // Empty search text would match anywhere, so there is no telling where
+    // the replacement belongs
+    if (!edit.search.trim()) {
+      throw new Error(
+        `Edit ${index + 1} of ${edits.length} could not be applied because its search text is empty.`,
+      );
+    }
+
+    if (result.includes(edit.search)) {
+      return result.replace(edit.search, () => edit.replace);
+    }
+
+    // Models often get indentation slightly wrong, so fall back to matching
+    // the lines with leading and trailing whitespace ignored
+    const searchLines = edit.search.split('\n').map((line) => line.trim());
+    const lines = result.split('\n');
+    for (let start = 0; start + searchLines.length <= lines.length; start++) {
+      if (
+        searchLines.every(
+          (line, offset) => lines[start + offset].trim() === line,
+        )
+      ) {
+        lines.splice(start, searchLines.length, edit.replace);
+        return lines.join('\n');
+      }
+    }
+
+    throw new Error(
+      `Edit ${index + 1} of ${edits.length} could not be applied because its search text was not found in the code.`,
+    );
+  }, code);
+}
+
+// The part of a response outside any edits or code blocks, which describes
+// the change
+const getSummary = (str: string) => {
+  const fence = escapeRegExp(CODE_REGION_OPENER);
+  const closer = escapeRegExp(CODE_REGION_CLOSER);
+  return str
+    .replace(EDIT_BLOCK, '')
+    .replace(new RegExp(`${fence}[\\s\\S]*?(${closer}|$)`, 'g'), '')
+    .trim();
+};
+
+/**
+ * Apply a model's response to a refinement prompt to the current code. The
+ * response may contain either search-and-replace edits or a complete revised
+ * document.
+ *
+ * @param code - The code the refinement was requested for.
+ * @param response - The model response.
+ * @returns The revised code and a description of the change.
+ * @throws {Error} If the response contains no usable change.
+ */
+export function applyRefinement(
+  code: string,
+  response: string,
+): RefinementResult {
+  const summary = getSummary(response) || undefined;
+
+  const edits = parseEdits(response);
+  if (edits.length > 0) {
+    return {
+      code: applyEdits(code, edits),
+      summary,
+      kind: 'edits',
+      diagnostics: [],
+    };
+  }
+
+  const parsed = parseHTML(response, CODE_REGION_OPENER, CODE_REGION_CLOSER);
+  if (!parsed.code) {
+    throw new Error(
+      'The model did not return any edits or a revised HTML document.',
+    );
+  }
+
+  // Without a code block, the whole response is the document
+  const isUnfenced = parsed.diagnostics.some(
+    (diagnostic) => diagnostic.kind === 'unfenced',
+  );
+
+  return {
+    code: parsed.code,
+    summary: isUnfenced ? undefined : summary,
+    kind: 'document',
+    diagnostics: parsed.diagnostics,
+  };
+}
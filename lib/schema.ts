@@ -0,0 +1,118 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+// The subset of JSON Schema used to describe structured model output. It is
+// sent to the model as-is, so it must stay within what providers accept.
+export interface JSONSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  items?: JSONSchema;
+  enum?: string[];
+  minLength?: number;
+  minItems?: number;
+}
+
+const describeType = (value: unknown) =>
+  value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+
+/**
+ * Check a parsed JSON value against a schema.
+ *
+ * @param value - The value to validate.
+ * @param schema - The schema the value should conform to.
+ * @param path - Where the value sits within the document, used in messages.
+ * @returns A human-readable description of each problem found. Empty if the
+ *     value is valid.
+ */
+export function validateJSON(
+  value: unknown,
+  schema: JSONSchema,
+  path = 'response',
+): string[] {
+  const actualType = describeType(value);
+
+  switch (schema.type) {
+    case 'object': {
+      if (actualType !== 'object') {
+        return [`${path} should be an object, but is ${actualType}`];
+      }
+      const object = value as Record<string, unknown>;
+      const issues: string[] = [];
+      for (const key of schema.required || []) {
+        if (!(key in object)) {
+          issues.push(`${path} is missing the required field "${key}"`);
+        }
+      }
+      for (const [key, propertySchema] of Object.entries(
+        schema.properties || {},
+      )) {
+        if (key in object) {
+          issues.push(
+            ...validateJSON(object[key], propertySchema, `${path}.${key}`),
+          );
+        }
+      }
+      return issues;
+    }
+    case 'array': {
+      if (actualType !== 'array') {
+        return [`${path} should be an array, but is ${actualType}`];
+      }
+      const array = value as unknown[];
+      const issues: string[] = [];
+      if (schema.minItems !== undefined && array.length < schema.minItems) {
+        issues.push(
+          `${path} should have at least ${schema.minItems} items, but has ${array.length}`,
+        );
+      }
+      if (schema.items) {
+        array.forEach((item, index) =>
+          issues.push(
+            ...validateJSON(item, schema.items!, `${path}[${index}]`),
+          ),
+        );
+      }
+      return issues;
+    }
+    case 'string': {
+      if (actualType !== 'string') {
+        return [`${path} should be a string, but is ${actualType}`];
+      }
+      const string = value as string;
+      if (schema.enum && !schema.enum.includes(string)) {
+        return [
+          `${path} should be one of ${schema.enum.map((option) => `"${option}"`).join(', ')}, but is "${string}"`,
+        ];
+      }
+      if (
+        schema.minLength !== undefined &&
+        string.trim().length < schema.minLength
+      ) {
+        return [
+          `${path} should be at least ${schema.minLength} characters long, but is ${string.trim().length}`,
+        ];
+      }
+      return [];
+    }
+    case 'number':
+    case 'integer':
+      if (
+        actualType !== 'number' ||
+        (schema.type === 'integer' && !Number.isInteger(value))
+      ) {
+        return [`${path} should be a ${schema.type}, but is ${actualType}`];
+      }
+      return [];
+    case 'boolean':
+      return actualType === 'boolean'
+        ? []
+        : [`${path} should be a boolean, but is ${actualType}`];
+    default:
+      return [];
+  }
+}
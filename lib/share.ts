@@ -0,0 +1,198 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {JSONSchema, validateJSON} from '@/lib/schema';
+import {Example} from '@/lib/types';
+
+// Everything needed to reopen an app without calling the model
+export type SharedState = Example;
+
+// Keeps shared states under short IDs, so links don't have to carry them
+export interface ShareStore {
+  save: (state: SharedState) => Promise<string>;
+  load: (id: string) => Promise<SharedState | null>;
+}
+
+// URL fragment parameters for a state encoded into the link itself, or
+// stored under an ID
+const STATE_PARAM = 'state';
+const ID_PARAM = 'share';
+
+const SHARED_STATE_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    title: {type: 'string'},
+    url: {type: 'string'},
+    spec: {type: 'string', minLength: 1},
+    code: {type: 'string', minLength: 1},
+  },
+  required: ['title', 'url', 'spec', 'code'],
+};
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = '';
+  // Convert in chunks to stay within the argument limit of fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary)
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+};
+
+const fromBase64Url = (encoded: string) => {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+};
+
+const transform = async (
+  bytes: Uint8Array,
+  stream: CompressionStream | DecompressionStream,
+) =>
+  new Uint8Array(
+    await new Response(
+      new Blob([bytes]).stream().pipeThrough(stream),
+    ).arrayBuffer(),
+  );
+
+// Check that a state read from a link or a share store is valid, since
+// either may have been tampered with
+const validateSharedState = (state: unknown): SharedState => {
+  const issues = validateJSON(state, SHARED_STATE_SCHEMA, 'shared app');
+  if (issues.length > 0) {
+    throw new Error(`The shared link is invalid: ${issues.join('; ')}`);
+  }
+  return state as SharedState;
+};
+
+// Compress a shared state into a string that is safe to put in a URL
+export async function encodeSharedState(state: SharedState): Promise<string> {
+  const json = new TextEncoder().encode(JSON.stringify(state));
+  return toBase64Url(
+    await transform(json, new CompressionStream('deflate-raw')),
+  );
+}
+
+// Reverse `encodeSharedState`, checking that the result is a valid state
+export async function decodeSharedState(encoded: string): Promise<SharedState> {
+  let state: unknown;
+  try {
+    const json = await transform(
+      fromBase64Url(encoded),
+      new DecompressionStream('deflate-raw'),
+    );
+    state = JSON.parse(new TextDecoder().decode(json));
+  } catch {
+    throw new Error('The shared link is corrupted or incomplete.');
+  }
+
+  return validateSharedState(state);
+}
+
+/**
+ * Create a share store backed by an HTTP service that accepts a state with
+ * `POST <endpoint>` (responding with `{"id": "..."}`) and returns it from
+ * `GET <endpoint>/<id>`.
+ *
+ * @param endpoint - The base URL of the service.
+ * @returns A store that keeps states in the service.
+ */
+export function createHttpShareStore(endpoint: string): ShareStore {
+  const baseUrl = endpoint.replace(/\/+$/, '');
+
+  return {
+    save: async (state) => {
+      const response = await fetch(baseUrl, {
+        method: 'POST',
+        headers: {'Content-Type': 'application/json'},
+        body: JSON.stringify(state),
+      });
+      if (!response.ok) {
+        throw new Error(`Failed to save the shared app (${response.status})`);
+      }
+      const {id} = await response.json();
+      return id;
+    },
+    load: async (id) => {
+      const response = await fetch(`${baseUrl}/${encodeURIComponent(id)}`);
+      if (response.status === 404) {
+        return null;
+      }
+      if (!response.ok) {
+        throw new Error(`Failed to load the shared app (${response.status})`);
+      }
+      return response.json();
+    },
+  };
+}
+
+const shareStoreUrl: string | undefined =
+  globalThis.process?.env?.SHARE_STORE_URL;
+
+// Links carry the whole state unless a store is configured
+let shareStore: ShareStore | null = shareStoreUrl
+  ? createHttpShareStore(shareStoreUrl)
+  : null;
+
+// Replace the store that shared states are kept in. With no store, states
+// are encoded into the link itself.
+export function setShareStore(store: ShareStore | null) {
+  shareStore = store;
+}
+
+/**
+ * Create a link that reopens an app with the given state.
+ *
+ * @param state - The app to share.
+ * @param baseUrl - The page the link should point to.
+ * @returns The link.
+ */
+export async function createShareLink(
+  state: SharedState,
+  baseUrl = window.location.href,
+): Promise<string> {
+  const url = new URL(baseUrl);
+  const params = new URLSearchParams();
+  if (shareStore) {
+    params.set(ID_PARAM, await shareStore.save(state));
+  } else {
+    params.set(STATE_PARAM, await encodeSharedState(state));
+  }
+  url.hash = params.toString();
+  return url.toString();
+}
+
+/**
+ * Read the shared state from a link's fragment, if it has one.
+ *
+ * @param hash - The fragment of the link, e.g. `window.location.hash`.
+ * @returns The shared state, or null if the link does not share an app.
+ */
+export async function loadSharedState(
+  hash: string,
+): Promise<SharedState | null> {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+
+  const encoded = params.get(STATE_PARAM);
+  if (encoded) {
+    return decodeSharedState(encoded);
+  }
+
+  const id = params.get(ID_PARAM);
+  if (id) {
+    if (!shareStore) {
+      throw new Error('This link needs a share store, but none is configured.');
+    }
+    const state = await shareStore.load(id);
+    if (!state) {
+      throw new Error('The shared app could not be found.');
+    }
+    return validateSharedState(state);
+  }
+
+  return null;
+}
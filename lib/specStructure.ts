@@ -0,0 +1,149 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {CODE_REGION_OPENER} from '@/lib/prompts';
+
+// A numbered item from the SPECIFICATIONS list of a spec
+export interface SpecItem {
+  number: number;
+  text: string;
+}
+
+// A spec item being edited. Disabled items are left out of the spec.
+export interface SpecRequirement {
+  id: string;
+  text: string;
+  enabled: boolean;
+}
+
+// A spec split into the parts that can be edited separately
+export interface StructuredSpec {
+  // What the app is about, before the list
+  intro: string;
+  requirements: SpecRequirement[];
+  // Any other text after the list
+  outro: string;
+  // The code instructions from the prompt template, appended unchanged
+  addendum: string;
+}
+
+const SPECIFICATIONS_HEADING = /^\s*SPECIFICATIONS\s*:?\s*$/im;
+const NUMBERED_LINE = /^\s*(\d+)[.)]\s+(.*)$/;
+
+// Split a spec around its numbered list. Lines that follow an item without a
+// blank line in between continue it. Specs without the heading are searched
+// for their first numbered list instead.
+const splitSpec = (spec: string) => {
+  const heading = SPECIFICATIONS_HEADING.exec(spec);
+  const listStart = heading ? heading.index + heading[0].length : 0;
+  const lines = spec.slice(listStart).split('\n');
+
+  const items: SpecItem[] = [];
+  let firstItemLine = -1;
+  let listEnd = lines.length;
+  for (let i = 0; i < lines.length; i++) {
+    const match = NUMBERED_LINE.exec(lines[i]);
+    if (match) {
+      firstItemLine = firstItemLine === -1 ? i : firstItemLine;
+      items.push({number: Number(match[1]), text: match[2].trim()});
+    } else if (items.length > 0 && lines[i].trim()) {
+      // Text after a blank line ends the list
+      if (!lines[i - 1].trim()) {
+        listEnd = i;
+        break;
+      }
+      items[items.length - 1].text += `\n${lines[i].trimEnd()}`;
+    }
+  }
+
+  const intro = heading
+    ? spec.slice(0, heading.index)
+    : items.length
+      ? lines.slice(0, firstItemLine).join('\n')
+      : spec;
+  const outro = items.length ? lines.slice(listEnd).join('\n') : '';
+  return {intro: intro.trim(), items, outro: outro.trim()};
+};
+
+/**
+ * Find the numbered items of a spec's SPECIFICATIONS list.
+ *
+ * @param spec - The spec to read.
+ * @returns The items in order. Empty if the spec has no numbered list.
+ */
+export const parseSpecItems = (spec: string): SpecItem[] =>
+  splitSpec(spec).items.filter((item) => item.text);
+
+/**
+ * Split a spec into an intro, its numbered requirements and the text after
+ * them, for editing as a form.
+ *
+ * @param spec - The spec, with the code instructions appended.
+ * @param addenda - The code instructions of every known prompt template. The
+ *     first is used if the spec does not end with any of them.
+ * @returns The parts of the spec.
+ */
+export function parseStructuredSpec(
+  spec: string,
+  addenda: string[],
+): StructuredSpec {
+  let body = spec.trim();
+  let addendum = addenda.find(
+    (text) => text.trim() && body.endsWith(text.trim()),
+  );
+  if (addendum) {
+    body = body.slice(0, body.length - addendum.trim().length);
+  } else {
+    // Code instructions from older templates still describe the code fence,
+    // in the last paragraph that mentions it
+    const paragraphs = body.split(/\n\s*\n/);
+    for (let i = paragraphs.length - 1; i > 0; i--) {
+      if (
+        paragraphs[i].includes(`"${CODE_REGION_OPENER}"`) &&
+        !NUMBERED_LINE.test(paragraphs[i].split('\n')[0])
+      ) {
+        addendum = `\n\n${paragraphs.slice(i).join('\n\n')}`;
+        body = paragraphs.slice(0, i).join('\n\n');
+        break;
+      }
+    }
+  }
+
+  const {intro, items, outro} = splitSpec(body);
+  return {
+    intro,
+    requirements: items.map((item) => ({
+      id: crypto.randomUUID(),
+      text: item.text,
+      enabled: true,
+    })),
+    outro,
+    addendum: addendum ?? addenda[0] ?? '',
+  };
+}
+
+/**
+ * Put an edited spec back together, numbering the enabled requirements in
+ * order and appending the code instructions.
+ *
+ * @param spec - The parts of the spec.
+ * @returns The spec, ready to generate code from.
+ */
+export function assembleSpec(spec: StructuredSpec): string {
+  const requirements = spec.requirements
+    .filter((requirement) => requirement.enabled && requirement.text.trim())
+    .map((requirement, index) => `${index + 1}. ${requirement.text.trim()}`);
+
+  return (
+    [
+      spec.intro.trim(),
+      requirements.length && `SPECIFICATIONS:\n${requirements.join('\n')}`,
+      spec.outro.trim(),
+    ]
+      .filter(Boolean)
+      .join('\n\n') + spec.addendum
+  );
+}
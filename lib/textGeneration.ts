@@ -5,109 +5,363 @@
 /* tslint:disable */
 
 import {
-  FinishReason,
-  GenerateContentConfig,
-  GenerateContentParameters,
-  GoogleGenAI,
-  HarmBlockThreshold,
-  HarmCategory,
-  Part,
-  SafetySetting,
-} from '@google/genai';
-
-const GEMINI_API_KEY =
-  globalThis.process.env.GEMINI_API_KEY || globalThis.process.env.API_KEY;
-
-interface GenerateTextOptions {
-  modelName: string;
-  prompt: string;
-  videoUrl?: string;
-  temperature?: number;
-  safetySettings?: SafetySetting[];
+  CacheMode,
+  CachedGeneration,
+  getCacheKey,
+  getCachedGeneration,
+  isCacheAvailable,
+  putCachedGeneration,
+} from '@/lib/generationCache';
+import {parseJSON} from '@/lib/parse';
+import {getJSONRepairPrompt} from '@/lib/prompts';
+import {getModelProvider} from '@/lib/providers';
+import {
+  GenerateTextOptions,
+  GenerationResult,
+  TokenUsage,
+} from '@/lib/providers/types';
+import {JSONSchema, validateJSON} from '@/lib/schema';
+
+// How long to wait for each attempt at a request, and how many times to try
+// again after a failure that may be temporary. A streamed request only times
+// out when no chunk has arrived for that long.
+export interface GenerationRequest extends GenerateTextOptions {
+  timeoutMs?: number;
+  maxRetries?: number;
+  onRetry?: (attempt: number, maxRetries: number, error: unknown) => void;
+  // Called with the tokens used by a successful request, if the provider
+  // reports them
+  onUsage?: (usage: TokenUsage) => void;
+  // Whether to serve the response from the generation cache and store it there
+  cache?: CacheMode;
+  // Whether a response is usable. Only usable responses are stored in or
+  // served from the cache, so a bad one is asked for again next time.
+  isCacheable?: (text: string) => boolean;
+  // Called when the response is served from the cache instead of the model
+  onCacheHit?: (entry: CachedGeneration) => void;
+}
+
+interface GenerateJSONOptions<T> extends GenerationRequest {
+  responseSchema: JSONSchema;
+  // Checks that the schema cannot express, returning a description of each
+  // problem found
+  validate?: (value: T) => string[];
+  // How many times to ask the model to fix a response that fails validation
+  maxRepairAttempts?: number;
+  onProgress?: (textSoFar: string) => void;
+  onRepair?: (attempt: number, maxAttempts: number, issues: string[]) => void;
+}
+
+// Thrown when the model keeps returning JSON that does not match the schema
+export class StructuredOutputError extends Error {
+  constructor(
+    message: string,
+    readonly issues: string[],
+  ) {
+    super(message);
+    this.name = 'StructuredOutputError';
+  }
+}
+
+// Thrown when a request is stopped through its abort signal
+export class GenerationCancelledError extends Error {
+  constructor() {
+    super('Generation was cancelled.');
+    this.name = 'GenerationCancelledError';
+  }
+}
+
+// Thrown when the model takes longer than the timeout to respond
+export class GenerationTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`The model did not respond within ${timeoutMs / 1000} seconds.`);
+    this.name = 'GenerationTimeoutError';
+  }
+}
+
+// Responses can take minutes for long documents
+const DEFAULT_TIMEOUT_MS = 5 * 60 * 1000;
+const DEFAULT_MAX_RETRIES = 3;
+
+// The delay before the first retry, doubled for each one after it
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRY_MAX_DELAY_MS = 30_000;
+
+// Rate limits, server errors and timeouts usually pass
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+// The messages of the TypeError that fetch() rejects with when the network
+// fails, in Chrome, Firefox, Safari and Node
+const NETWORK_ERROR_MESSAGE =
+  /^(Failed to fetch|NetworkError when attempting to fetch resource\.|Load failed|fetch failed)$/;
+
+export const isRetryableError = (error: unknown) => {
+  if (error instanceof GenerationTimeoutError) return true;
+  // Other TypeErrors are bugs, which fail the same way every time
+  if (error instanceof TypeError) {
+    return NETWORK_ERROR_MESSAGE.test(error.message);
+  }
+  const status = (error as {status?: unknown} | null)?.status;
+  return typeof status === 'number' && RETRYABLE_STATUSES.has(status);
+};
+
+// Exponential backoff with jitter, so that parallel requests that failed
+// together do not retry together
+const getRetryDelay = (attempt: number) => {
+  const ceiling = Math.min(
+    RETRY_MAX_DELAY_MS,
+    RETRY_BASE_DELAY_MS * 2 ** (attempt - 1),
+  );
+  return ceiling / 2 + (Math.random() * ceiling) / 2;
+};
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new GenerationCancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, {once: true});
+  });
+
+// Sends a request to the model. Streamed requests call `restartTimeout` as
+// each chunk arrives.
+type SendRequest = (
+  request: GenerateTextOptions,
+  restartTimeout: () => void,
+) => Promise<GenerationResult>;
+
+// Make one attempt at a request, stopping it if the caller aborts or it takes
+// too long. Providers that ignore the signal are raced against it, so that a
+// late response never reaches the caller.
+async function runAttempt(
+  request: GenerateTextOptions,
+  timeoutMs: number,
+  send: SendRequest,
+): Promise<GenerationResult> {
+  const controller = new AbortController();
+  let isTimedOut = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const restartTimeout = () => {
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      isTimedOut = true;
+      controller.abort();
+    }, timeoutMs);
+  };
+  restartTimeout();
+  const onAbort = () => controller.abort();
+  request.signal?.addEventListener('abort', onAbort, {once: true});
+
+  try {
+    return await new Promise<GenerationResult>((resolve, reject) => {
+      controller.signal.addEventListener('abort', () =>
+        reject(
+          isTimedOut
+            ? new GenerationTimeoutError(timeoutMs)
+            : new GenerationCancelledError(),
+        ),
+      );
+      send({...request, signal: controller.signal}, restartTimeout).then(
+        resolve,
+        reject,
+      );
+    });
+  } finally {
+    clearTimeout(timer);
+    request.signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+// Send a request, trying again with backoff after failures that may be
+// temporary
+async function sendWithRetries(
+  options: GenerationRequest,
+  send: SendRequest,
+): Promise<string> {
+  const {
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    maxRetries = DEFAULT_MAX_RETRIES,
+    onRetry,
+    onUsage,
+    ...request
+  } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    if (request.signal?.aborted) {
+      throw new GenerationCancelledError();
+    }
+
+    try {
+      const result = await runAttempt(request, timeoutMs, send);
+      if (result.usage) {
+        onUsage?.(result.usage);
+      }
+      return result.text;
+    } catch (error) {
+      if (request.signal?.aborted) {
+        throw new GenerationCancelledError();
+      }
+      if (attempt >= maxRetries || !isRetryableError(error)) {
+        throw error;
+      }
+
+      console.warn(`Retrying after a failed request (${attempt + 1}):`, error);
+      onRetry?.(attempt + 1, maxRetries, error);
+      await wait(getRetryDelay(attempt + 1), request.signal);
+    }
+  }
+}
+
+// Send a request, or serve its response from the cache. The cache is only
+// written once a response has arrived in full and is usable.
+async function sendWithCache(
+  options: GenerationRequest,
+  send: SendRequest,
+): Promise<string> {
+  const {
+    cache = 'off',
+    onCacheHit,
+    isCacheable = () => true,
+    ...request
+  } = options;
+  if (cache === 'off' || !isCacheAvailable()) {
+    return sendWithRetries(request, send);
+  }
+
+  const key = await getCacheKey(getModelProvider().name, request);
+  if (cache === 'use') {
+    const entry = await getCachedGeneration(key).catch((error) => {
+      console.warn('Failed to read the generation cache:', error);
+      return null;
+    });
+    if (entry && isCacheable(entry.text)) {
+      onCacheHit?.(entry);
+      return entry.text;
+    }
+  }
+
+  const text = await sendWithRetries(request, send);
+  if (isCacheable(text)) {
+    await putCachedGeneration(key, text).catch((error) =>
+      console.warn('Failed to write to the generation cache:', error),
+    );
+  }
+  return text;
 }
 
 /**
- * Generate text content using the Gemini API, optionally including video data.
+ * Generate text content using the active model provider, optionally including
+ * video data. Failures that may be temporary are retried with backoff, and
+ * the response may be served from the generation cache.
  *
  * @param options - Configuration options for the generation request.
- * @returns The response from the Gemini API.
+ * @returns The text of the response.
+ * @throws {GenerationCancelledError} If the request was aborted.
  */
 export async function generateText(
-  options: GenerateTextOptions,
+  options: GenerationRequest,
 ): Promise<string> {
-  const {modelName, prompt, videoUrl, temperature = 0.75} = options;
+  return sendWithCache(options, (request) =>
+    getModelProvider().generate(request),
+  );
+}
 
-  if (!GEMINI_API_KEY) {
-    throw new Error('Gemini API key is missing or empty');
-  }
+/**
+ * Generate text content using the active model provider, reporting the
+ * response as it is streamed back. The timeout starts again as each chunk
+ * arrives, and a retried request starts again from an empty response.
+ *
+ * @param options - Configuration options for the generation request.
+ * @param onProgress - Called with the full text received so far after each
+ *     chunk arrives.
+ * @returns The text of the complete response.
+ * @throws {GenerationCancelledError} If the request was aborted.
+ */
+export async function generateTextStream(
+  options: GenerationRequest,
+  onProgress: (textSoFar: string) => void,
+): Promise<string> {
+  // A cached response arrives all at once
+  const onCacheHit = (entry: CachedGeneration) => {
+    onProgress(entry.text);
+    options.onCacheHit?.(entry);
+  };
 
-  const ai = new GoogleGenAI({apiKey: GEMINI_API_KEY});
+  return sendWithCache({...options, onCacheHit}, (request, restartTimeout) => {
+    let textSoFar = '';
+    return getModelProvider().generateStream(request, (chunk) => {
+      // Chunks may still arrive from a provider that ignores the signal
+      if (request.signal?.aborted) return;
+      restartTimeout();
+      textSoFar += chunk;
+      onProgress(textSoFar);
+    });
+  });
+}
 
-  const parts: Part[] = [{text: prompt}];
+/**
+ * Generate a JSON object that conforms to a schema. Responses that cannot be
+ * parsed or fail validation are sent back to the model to be repaired, up to
+ * `maxRepairAttempts` times.
+ *
+ * @param options - Configuration options for the generation request.
+ * @returns The parsed and validated object.
+ * @throws {StructuredOutputError} If no valid response was produced.
+ */
+export async function generateJSON<T>(
+  options: GenerateJSONOptions<T>,
+): Promise<T> {
+  const {
+    maxRepairAttempts = 2,
+    validate,
+    onProgress,
+    onRepair,
+    ...request
+  } = options;
 
-  if (videoUrl) {
+  // The problems with a response, if any
+  const findIssues = (response: string): string[] => {
     try {
-      parts.push({
-        fileData: {
-          mimeType: 'video/mp4',
-          fileUri: videoUrl,
-        },
-      });
+      const value = parseJSON(response);
+      const issues = validateJSON(value, request.responseSchema);
+      return issues.length === 0 && validate ? validate(value as T) : issues;
     } catch (error) {
-      console.error('Error processing video input:', error);
-      throw new Error(`Failed to process video input from URL: ${videoUrl}`);
+      return [error instanceof Error ? error.message : String(error)];
     }
-  }
-
-  const generationConfig: GenerateContentConfig = {
-    temperature,
   };
+  const isCacheable = (response: string) => findIssues(response).length === 0;
 
-  const request: GenerateContentParameters = {
-    model: modelName,
-    contents: [{role: 'user', parts}],
-    config: generationConfig,
-  };
-
-  try {
-    const response = await ai.models.generateContent(request);
+  let prompt = request.prompt;
+  let issues: string[] = [];
 
-    // Check for prompt blockage
-    if (response.promptFeedback?.blockReason) {
-      throw new Error(
-        `Content generation failed: Prompt blocked (reason: ${response.promptFeedback.blockReason})`,
-      );
+  for (let attempt = 0; attempt <= maxRepairAttempts; attempt++) {
+    if (attempt > 0) {
+      onRepair?.(attempt, maxRepairAttempts, issues);
     }
 
-    // Check for response blockage
-    if (!response.candidates || response.candidates.length === 0) {
-      throw new Error('Content generation failed: No candidates returned.');
-    }
+    const response = onProgress
+      ? await generateTextStream({...request, prompt, isCacheable}, onProgress)
+      : await generateText({...request, prompt, isCacheable});
 
-    const firstCandidate = response.candidates[0];
-
-    // Check for finish reasons other than STOP
-    if (
-      firstCandidate.finishReason &&
-      firstCandidate.finishReason !== FinishReason.STOP
-    ) {
-      if (firstCandidate.finishReason === FinishReason.SAFETY) {
-        throw new Error(
-          'Content generation failed: Response blocked due to safety settings.',
-        );
-      } else {
-        throw new Error(
-          `Content generation failed: Stopped due to ${firstCandidate.finishReason}.`,
-        );
-      }
+    issues = findIssues(response);
+    if (issues.length === 0) {
+      return parseJSON(response) as T;
     }
 
-    return response.text;
-  } catch (error) {
-    console.error(
-      'An error occurred during Gemini API call or response processing:',
-      error,
-    );
-    throw error;
+    console.warn('Model returned invalid JSON:', issues);
+    prompt = getJSONRepairPrompt(request.prompt, response, issues);
   }
+
+  throw new StructuredOutputError(
+    `The model did not return a valid response after ${maxRepairAttempts + 1} attempts.`,
+    issues,
+  );
 }
+
+// Rough token count for text, for display while a response streams in
+export const estimateTokenCount = (text: string) => Math.ceil(text.length / 4);
@@ -0,0 +1,106 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {Translate} from '@/lib/i18n';
+import {VideoSegment} from '@/lib/types';
+
+/**
+ * Parse a time offset into seconds.
+ *
+ * Accepts plain seconds ("90", "90s"), clock times ("1:30", "1:02:03") and
+ * YouTube-style durations ("1m30s", "1h2m3s").
+ *
+ * @param text - The time offset.
+ * @returns The offset in seconds, or null if the text is not a time.
+ */
+export const parseTimestamp = (text: string): number | null => {
+  const value = text.trim();
+
+  if (/^\d+(\.\d+)?s?$/.test(value)) {
+    return parseFloat(value);
+  }
+
+  const clock = value.match(/^(?:(\d+):)?(\d{1,2}):(\d{2}(?:\.\d+)?)$/);
+  if (clock) {
+    const [, hours, minutes, seconds] = clock;
+    // Only the leading field may be 60 or more, e.g. "90:00" but not "1:90:00"
+    if (parseFloat(seconds) >= 60 || (hours && parseInt(minutes) >= 60)) {
+      return null;
+    }
+    return (
+      parseInt(hours ?? '0') * 3600 +
+      parseInt(minutes) * 60 +
+      parseFloat(seconds)
+    );
+  }
+
+  const duration = value.match(/^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s)?$/);
+  if (duration && value) {
+    const [, hours = '0', minutes = '0', seconds = '0'] = duration;
+    return parseInt(hours) * 3600 + parseInt(minutes) * 60 + parseInt(seconds);
+  }
+
+  return null;
+};
+
+// Format seconds as a clock time, e.g. 83 -> "1:23" and 3723 -> "1:02:03"
+export const formatTimestamp = (seconds: number) => {
+  const whole = Math.floor(seconds);
+  const hours = Math.floor(whole / 3600);
+  const minutes = Math.floor((whole % 3600) / 60);
+  const secs = String(whole % 60).padStart(2, '0');
+  return hours
+    ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}`
+    : `${minutes}:${secs}`;
+};
+
+// Describe a segment for display, e.g. "1:30–4:00" or "from 1:30"
+export const formatSegment = ({start, end}: VideoSegment, t: Translate) => {
+  if (start !== undefined && end !== undefined) {
+    return t('segment.range', {
+      start: formatTimestamp(start),
+      end: formatTimestamp(end),
+    });
+  }
+  if (start !== undefined) {
+    return t('segment.from', {start: formatTimestamp(start)});
+  }
+  return end !== undefined
+    ? t('segment.until', {end: formatTimestamp(end)})
+    : t('segment.whole');
+};
+
+// Whether a segment limits the video at all
+export const isPartialSegment = (segment?: VideoSegment) =>
+  !!segment && (!!segment.start || segment.end !== undefined);
+
+// Whether a segment describes a clip, i.e. does not end before it starts
+export const isValidSegment = ({start, end}: VideoSegment) =>
+  start === undefined || end === undefined || end > start;
+
+// Add a W3C media fragment (#t=start,end) to a video URL, which browsers use
+// to play only that part of the video
+export const addMediaFragment = (url: string, segment?: VideoSegment) => {
+  if (!isPartialSegment(segment)) {
+    return url;
+  }
+  const {start = 0, end} = segment!;
+  return `${url.split('#')[0]}#t=${start}${end !== undefined ? `,${end}` : ''}`;
+};
+
+// Read a W3C media fragment (#t=start,end) from a video URL
+export const getMediaFragmentSegment = (url: string): VideoSegment => {
+  const match = url.match(/#(?:.*&)?t=([\d.:]*)(?:,([\d.:]+))?/);
+  if (!match) {
+    return {};
+  }
+  const start = match[1] ? parseTimestamp(match[1]) : null;
+  const end = match[2] ? parseTimestamp(match[2]) : null;
+  return {
+    start: start ?? undefined,
+    end: end ?? undefined,
+  };
+};
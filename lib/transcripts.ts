@@ -0,0 +1,166 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {formatTimestamp} from '@/lib/timestamps';
+import {VideoSegment} from '@/lib/types';
+
+// Plain text, SubRip (.srt) or WebVTT (.vtt) subtitles
+export type TranscriptFormat = 'text' | 'srt' | 'vtt';
+
+// A transcript used in place of a video
+export interface Transcript {
+  // Empty if the transcript is untitled
+  title: string;
+  format: TranscriptFormat;
+  text: string;
+}
+
+// A line of subtitles and when it is shown, in seconds
+export interface TranscriptCue {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export const TRANSCRIPT_MIME_TYPES: Record<TranscriptFormat, string> = {
+  text: 'text/plain',
+  srt: 'application/x-subrip',
+  vtt: 'text/vtt',
+};
+
+// e.g. "00:01:02,500 --> 00:01:05,000" or "01:02.500 --> 01:05.000"
+const CUE_TIMING =
+  /^\s*((?:\d+:)?\d{1,2}:\d{2}(?:[.,]\d+)?)\s*-->\s*((?:\d+:)?\d{1,2}:\d{2}(?:[.,]\d+)?)/;
+
+const parseCueTime = (time: string) =>
+  time
+    .replace(',', '.')
+    .split(':')
+    .reduce((seconds, part) => seconds * 60 + Number(part), 0);
+
+/**
+ * Work out the format of a transcript from its file name or contents.
+ *
+ * @param text - The transcript.
+ * @param fileName - The name of the file it was loaded from, if any.
+ * @returns The format.
+ */
+export function detectTranscriptFormat(
+  text: string,
+  fileName = '',
+): TranscriptFormat {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (extension === 'srt' || extension === 'vtt') {
+    return extension;
+  }
+  if (/^\uFEFF?WEBVTT/.test(text)) {
+    return 'vtt';
+  }
+  return text.split('\n').some((line) => CUE_TIMING.test(line))
+    ? 'srt'
+    : 'text';
+}
+
+/**
+ * Read the cues of SubRip or WebVTT subtitles. Cue numbers, styling tags and
+ * blocks without a timing line, such as WebVTT notes, are left out, and so
+ * are cues that repeat the one before, as automatic captions often do.
+ *
+ * @param text - The subtitles.
+ * @returns The cues in order.
+ */
+export function parseSubtitles(text: string): TranscriptCue[] {
+  const cues: TranscriptCue[] = [];
+  for (const block of text.replace(/\r\n?/g, '\n').split(/\n\s*\n/)) {
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex((line) => CUE_TIMING.test(line));
+    if (timingIndex === -1) {
+      continue;
+    }
+
+    const [, start, end] = CUE_TIMING.exec(lines[timingIndex])!;
+    const cueText = lines
+      .slice(timingIndex + 1)
+      .map((line) => line.replace(/<[^>]*>/g, '').trim())
+      .filter(Boolean)
+      .join(' ');
+    if (cueText && cueText !== cues[cues.length - 1]?.text) {
+      cues.push({
+        start: parseCueTime(start),
+        end: parseCueTime(end),
+        text: cueText,
+      });
+    }
+  }
+  return cues;
+}
+
+/**
+ * Encode a transcript as a data URL, so it can be stored, shared and
+ * generated from wherever a video URL can.
+ *
+ * @param transcript - The transcript.
+ * @returns The data URL.
+ */
+export const createTranscriptUrl = ({title, format, text}: Transcript) =>
+  `data:${TRANSCRIPT_MIME_TYPES[format]};name=${encodeURIComponent(title)},${encodeURIComponent(text)}`;
+
+/**
+ * Decode a transcript from a data URL made by createTranscriptUrl.
+ *
+ * @param url - The URL.
+ * @returns The transcript, or null if the URL is not a transcript.
+ */
+export function parseTranscriptUrl(url: string): Transcript | null {
+  const match = /^data:([^;,]+)((?:;[^;,]*)*),(.*)$/s.exec(url);
+  const format = (
+    Object.keys(TRANSCRIPT_MIME_TYPES) as TranscriptFormat[]
+  ).find((format) => TRANSCRIPT_MIME_TYPES[format] === match?.[1]);
+  if (!match || !format) {
+    return null;
+  }
+
+  try {
+    const name = /;name=([^;]*)/.exec(match[2])?.[1];
+    return {
+      title: name ? decodeURIComponent(name) : '',
+      format,
+      text: decodeURIComponent(match[3]),
+    };
+  } catch {
+    return null;
+  }
+}
+
+// Whether a cue is shown at any time during a segment
+export const isCueInSegment = (
+  cue: TranscriptCue,
+  {start, end}: VideoSegment = {},
+) =>
+  (start === undefined || cue.end > start) &&
+  (end === undefined || cue.start < end);
+
+/**
+ * Write out a transcript for a prompt. Subtitles become one line per cue,
+ * starting with the time it is spoken at, e.g. "[1:23] Welcome back", so the
+ * model can cite them.
+ *
+ * @param transcript - The transcript.
+ * @param segment - Only include the cues shown during this part of the video.
+ * @returns The transcript text.
+ */
+export function formatTranscriptForPrompt(
+  transcript: Transcript,
+  segment?: VideoSegment,
+): string {
+  if (transcript.format === 'text') {
+    return transcript.text.trim();
+  }
+  return parseSubtitles(transcript.text)
+    .filter((cue) => isCueInSegment(cue, segment))
+    .map((cue) => `[${formatTimestamp(cue.start)}] ${cue.text}`)
+    .join('\n');
+}
@@ -4,9 +4,122 @@
 */
 /* tslint:disable */
 
+import {GenerationSettings, PipelineStage} from '@/lib/generationSettings';
+import {TokenUsage} from '@/lib/providers/types';
+
 export interface Example {
   title: string;
   url: string;
   spec: string;
   code: string;
 }
+
+// A clip of a video, in seconds from its start. A missing start or end means
+// the clip runs from the beginning or to the end of the video.
+export interface VideoSegment {
+  start?: number;
+  end?: number;
+}
+
+// Identifies the version of a prompt template an app was generated with
+export interface PromptTemplateReference {
+  id: string;
+  name: string;
+  version: number;
+}
+
+// How a generated app was produced
+export interface GenerationMetadata {
+  models: {
+    spec: string;
+    code: string;
+  };
+  // The part of the video the app was generated from, if not all of it
+  videoSegment?: VideoSegment;
+  promptTemplate?: PromptTemplateReference;
+  // The model, sampling and safety settings in use
+  settings?: GenerationSettings;
+}
+
+// The tokens used by one model for one stage of the pipeline, summed over
+// every request
+export interface UsageEntry extends TokenUsage {
+  stage: PipelineStage;
+  modelName: string;
+  requests: number;
+}
+
+// A snapshot of an app's spec and code, taken whenever either changes
+export interface Revision {
+  id: string;
+  createdAt: string;
+  kind:
+    | 'original'
+    | 'generation'
+    | 'spec-edit'
+    | 'code-edit'
+    | 'refinement'
+    | 'variant'
+    | 'promoted-variant'
+    | 'restore';
+  spec: string;
+  code: string;
+}
+
+// A message in the conversation used to refine an app
+export interface ChatMessage {
+  id: string;
+  createdAt: string;
+  role: 'user' | 'model';
+  text: string;
+  // Set on model messages reporting that a refinement failed
+  isError?: boolean;
+}
+
+// A question in a quiz about the video. Multiple-choice questions are
+// answered with one of their choices, and short-answer questions in a few
+// words that are compared with the accepted answers.
+export interface QuizQuestion {
+  type: 'multiple-choice' | 'short-answer';
+  question: string;
+  // Empty for short-answer questions
+  choices: string[];
+  // The correct choice, or a model answer to a short-answer question
+  answer: string;
+  // Empty for multiple-choice questions
+  acceptedAnswers: string[];
+  // Why the answer is correct, shown once the question has been answered
+  explanation: string;
+}
+
+// An assessment generated alongside an app
+export interface Quiz {
+  questions: QuizQuestion[];
+  createdAt: string;
+  modelName: string;
+}
+
+// The current state of an app shown in the content container
+export interface AppContent {
+  spec: string;
+  code: string;
+  revisions: Revision[];
+  chat: ChatMessage[];
+  // The tokens used by every request made for the app
+  usage: UsageEntry[];
+  quiz?: Quiz;
+  // Only known if the app was generated rather than loaded
+  metadata?: GenerationMetadata;
+}
+
+// A generated app kept in the local library. `url` is the source video.
+export interface SavedApp extends Example {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  metadata?: GenerationMetadata;
+  revisions?: Revision[];
+  chat?: ChatMessage[];
+  usage?: UsageEntry[];
+  quiz?: Quiz;
+}
@@ -0,0 +1,149 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {PipelineStage} from '@/lib/generationSettings';
+import {TokenUsage} from '@/lib/providers/types';
+import {UsageEntry} from '@/lib/types';
+
+// Prices in US dollars per million tokens
+export interface ModelPrice {
+  input: number;
+  video: number;
+  output: number;
+}
+
+export type PriceTable = Record<string, ModelPrice>;
+
+// Public list prices for prompts of up to 200k tokens. Models whose names
+// start with one of these, e.g. dated previews, use its price.
+export const DEFAULT_PRICES: PriceTable = {
+  'gemini-2.5-pro': {input: 1.25, video: 1.25, output: 10},
+  'gemini-2.5-flash': {input: 0.3, video: 0.3, output: 2.5},
+  'gemini-2.5-flash-lite': {input: 0.1, video: 0.1, output: 0.4},
+  'gemini-2.0-flash': {input: 0.1, video: 0.1, output: 0.4},
+};
+
+const PRICES_STORAGE_KEY = 'modelPrices';
+
+export const getPriceTable = (): PriceTable => {
+  try {
+    const saved = localStorage.getItem(PRICES_STORAGE_KEY);
+    return saved ? JSON.parse(saved) : DEFAULT_PRICES;
+  } catch {
+    return DEFAULT_PRICES;
+  }
+};
+
+export const savePriceTable = (prices: PriceTable) =>
+  localStorage.setItem(PRICES_STORAGE_KEY, JSON.stringify(prices));
+
+// The price of a model, matching the longest model name in the table that
+// the name starts with
+export const getModelPrice = (
+  prices: PriceTable,
+  modelName: string,
+): ModelPrice | undefined => {
+  const match = Object.keys(prices)
+    .filter((name) => modelName.startsWith(name))
+    .sort((a, b) => b.length - a.length)[0];
+  return match === undefined ? undefined : prices[match];
+};
+
+/**
+ * Add the tokens used by a request to a list of usage entries.
+ *
+ * @param entries - The usage so far.
+ * @param stage - The stage of the pipeline the request was made for.
+ * @param modelName - The model the request was sent to.
+ * @param usage - The tokens the request used.
+ * @returns The entries with the usage added to the one for the same stage
+ *     and model.
+ */
+export function addUsage(
+  entries: UsageEntry[],
+  stage: PipelineStage,
+  modelName: string,
+  usage: TokenUsage,
+): UsageEntry[] {
+  const existing = entries.find(
+    (entry) => entry.stage === stage && entry.modelName === modelName,
+  );
+  if (!existing) {
+    return [...entries, {stage, modelName, requests: 1, ...usage}];
+  }
+  return entries.map((entry) =>
+    entry === existing
+      ? {
+          ...entry,
+          requests: entry.requests + 1,
+          promptTokens: entry.promptTokens + usage.promptTokens,
+          videoTokens: entry.videoTokens + usage.videoTokens,
+          outputTokens: entry.outputTokens + usage.outputTokens,
+        }
+      : entry,
+  );
+}
+
+// The estimated cost of an entry, or undefined if its model has no price
+export const getEntryCost = (
+  entry: UsageEntry,
+  prices: PriceTable,
+): number | undefined => {
+  const price = getModelPrice(prices, entry.modelName);
+  if (!price) return undefined;
+  return (
+    (entry.promptTokens * price.input +
+      entry.videoTokens * price.video +
+      entry.outputTokens * price.output) /
+    1_000_000
+  );
+};
+
+export interface UsageTotals extends TokenUsage {
+  requests: number;
+  cost: number;
+  // Models without a price are left out of the cost
+  unpricedModels: string[];
+}
+
+export function getUsageTotals(
+  entries: UsageEntry[],
+  prices: PriceTable,
+): UsageTotals {
+  const totals: UsageTotals = {
+    requests: 0,
+    promptTokens: 0,
+    videoTokens: 0,
+    outputTokens: 0,
+    cost: 0,
+    unpricedModels: [],
+  };
+  for (const entry of entries) {
+    totals.requests += entry.requests;
+    totals.promptTokens += entry.promptTokens;
+    totals.videoTokens += entry.videoTokens;
+    totals.outputTokens += entry.outputTokens;
+    const cost = getEntryCost(entry, prices);
+    if (cost === undefined) {
+      if (!totals.unpricedModels.includes(entry.modelName)) {
+        totals.unpricedModels.push(entry.modelName);
+      }
+    } else {
+      totals.cost += cost;
+    }
+  }
+  return totals;
+}
+
+export const formatCost = (cost: number) =>
+  `$${cost < 0.01 && cost > 0 ? cost.toFixed(4) : cost.toFixed(2)}`;
+
+export const formatTokenCount = (count: number) =>
+  count < 1000
+    ? String(count)
+    : count < 1_000_000
+      ? `${(count / 1000).toFixed(1)}k`
+      : `${(count / 1_000_000).toFixed(2)}M`;
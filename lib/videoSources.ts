@@ -0,0 +1,251 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {getModelProvider} from '@/lib/providers';
+import {LOCAL_FILE_URI_PREFIX} from '@/lib/providers/replay';
+import {addMediaFragment, getMediaFragmentSegment} from '@/lib/timestamps';
+import {
+  TranscriptCue,
+  parseSubtitles,
+  parseTranscriptUrl,
+} from '@/lib/transcripts';
+import {VideoSegment} from '@/lib/types';
+import {
+  getYoutubeEmbedUrl,
+  getYouTubeSegment,
+  getYouTubeThumbnailUrl,
+  getYouTubeVideoId,
+  getYouTubeVideoTitle,
+} from '@/lib/youtube';
+
+// Why a URL cannot be generated from. The messages are in the locale catalogs,
+// under `validation.<error>`.
+export type ValidationError =
+  | 'unsupportedUrl'
+  | 'notHttp'
+  | 'unsupportedFileType'
+  | 'emptyTranscript'
+  | 'noSubtitles';
+
+export interface ValidationResult {
+  isValid: boolean;
+  error?: ValidationError;
+}
+
+// How a video should be embedded for playback
+export type VideoEmbed =
+  | {type: 'iframe'; src: string}
+  | {type: 'video'; src: string}
+  // Plain text transcripts have no cues
+  | {type: 'transcript'; text: string; cues: TranscriptCue[]}
+  // Why the video cannot be played, under `video.unavailable.<reason>` in the
+  // locale catalogs
+  | {
+      type: 'unavailable';
+      reason: 'unsupported' | 'expiredUpload' | 'unreadable';
+    };
+
+// A kind of place a video can come from
+export interface VideoSource {
+  kind: 'youtube' | 'direct' | 'upload' | 'transcript';
+  matches: (url: string) => boolean;
+  validate: (url: string) => Promise<ValidationResult>;
+  // Empty if the video has no title, e.g. an untitled transcript
+  getTitle: (url: string) => Promise<string>;
+  // Empty if the source has no thumbnail image
+  getThumbnailUrl: (url: string) => string;
+  // The clip a URL points to, e.g. from a timestamp parameter
+  getSegment: (url: string) => VideoSegment;
+  // How to play the video, cued to a segment if one is given
+  getEmbed: (url: string, segment?: VideoSegment) => VideoEmbed;
+  getMimeType: (url: string) => string;
+}
+
+const VIDEO_MIME_TYPES: Record<string, string> = {
+  mp4: 'video/mp4',
+  m4v: 'video/mp4',
+  webm: 'video/webm',
+  mov: 'video/quicktime',
+  mpeg: 'video/mpeg',
+  mpg: 'video/mpeg',
+  avi: 'video/x-msvideo',
+  wmv: 'video/x-ms-wmv',
+  flv: 'video/x-flv',
+  '3gp': 'video/3gpp',
+};
+
+// The extensions of the video files that can be linked to directly
+export const VIDEO_FILE_TYPES = Object.keys(VIDEO_MIME_TYPES);
+
+const getExtension = (url: string) => {
+  try {
+    return new URL(url).pathname.split('.').pop()?.toLowerCase() || '';
+  } catch {
+    return '';
+  }
+};
+
+const getFileName = (url: string) => {
+  try {
+    return decodeURIComponent(new URL(url).pathname.split('/').pop() || url);
+  } catch {
+    return url;
+  }
+};
+
+const youtubeSource: VideoSource = {
+  kind: 'youtube',
+  matches: (url) => getYouTubeVideoId(url) !== null,
+  // Only URLs with a video ID match
+  validate: async () => ({isValid: true}),
+  getTitle: getYouTubeVideoTitle,
+  getThumbnailUrl: getYouTubeThumbnailUrl,
+  getSegment: getYouTubeSegment,
+  getEmbed: (url, segment) => ({
+    type: 'iframe',
+    src: getYoutubeEmbedUrl(url, segment),
+  }),
+  getMimeType: () => 'video/mp4',
+};
+
+// A video file served from any web host
+const directSource: VideoSource = {
+  kind: 'direct',
+  matches: (url) =>
+    /^https?:\/\//.test(url) && getExtension(url) in VIDEO_MIME_TYPES,
+  validate: async (url) => {
+    if (!/^https?:\/\//.test(url)) {
+      return {isValid: false, error: 'notHttp'};
+    }
+    if (!(getExtension(url) in VIDEO_MIME_TYPES)) {
+      return {isValid: false, error: 'unsupportedFileType'};
+    }
+    return {isValid: true};
+  },
+  getTitle: async (url) => getFileName(url),
+  getThumbnailUrl: () => '',
+  getSegment: getMediaFragmentSegment,
+  getEmbed: (url, segment) => ({
+    type: 'video',
+    src: addMediaFragment(url, segment ?? getMediaFragmentSegment(url)),
+  }),
+  getMimeType: (url) => VIDEO_MIME_TYPES[getExtension(url)],
+};
+
+interface UploadedVideo {
+  name: string;
+  mimeType: string;
+  // Local URL the file can be played back from, while the page is open
+  playbackUrl: string;
+}
+
+// Videos uploaded since the page was loaded, by URI
+const uploadedVideos = new Map<string, UploadedVideo>();
+
+// A video file uploaded from the user's device to the model provider
+const uploadSource: VideoSource = {
+  kind: 'upload',
+  matches: (url) =>
+    url.startsWith(LOCAL_FILE_URI_PREFIX) ||
+    /^https:\/\/generativelanguage\.googleapis\.com\/.*\/files\//.test(url),
+  validate: async () => ({isValid: true}),
+  getTitle: async (url) =>
+    uploadedVideos.get(url)?.name ||
+    decodeURIComponent(url.replace(LOCAL_FILE_URI_PREFIX, '')),
+  getThumbnailUrl: () => '',
+  getSegment: () => ({}),
+  getEmbed: (url, segment) => {
+    const video = uploadedVideos.get(url);
+    return video
+      ? {type: 'video', src: addMediaFragment(video.playbackUrl, segment)}
+      : {type: 'unavailable', reason: 'expiredUpload'};
+  },
+  getMimeType: (url) => uploadedVideos.get(url)?.mimeType || 'video/mp4',
+};
+
+// A transcript or subtitles pasted or loaded in place of a video, encoded in
+// a data URL
+const transcriptSource: VideoSource = {
+  kind: 'transcript',
+  matches: (url) => parseTranscriptUrl(url) !== null,
+  validate: async (url) => {
+    const transcript = parseTranscriptUrl(url);
+    if (!transcript?.text.trim()) {
+      return {isValid: false, error: 'emptyTranscript'};
+    }
+    if (
+      transcript.format !== 'text' &&
+      parseSubtitles(transcript.text).length === 0
+    ) {
+      return {isValid: false, error: 'noSubtitles'};
+    }
+    return {isValid: true};
+  },
+  getTitle: async (url) => parseTranscriptUrl(url)?.title ?? '',
+  getThumbnailUrl: () => '',
+  getSegment: () => ({}),
+  getEmbed: (url) => {
+    const transcript = parseTranscriptUrl(url);
+    return transcript
+      ? {
+          type: 'transcript',
+          text: transcript.text,
+          cues:
+            transcript.format === 'text' ? [] : parseSubtitles(transcript.text),
+        }
+      : {type: 'unavailable', reason: 'unreadable'};
+  },
+  getMimeType: () => 'text/plain',
+};
+
+export const VIDEO_SOURCES: VideoSource[] = [
+  youtubeSource,
+  uploadSource,
+  transcriptSource,
+  directSource,
+];
+
+// Find the source a video URL belongs to, if any
+export const getVideoSource = (url: string): VideoSource | null =>
+  VIDEO_SOURCES.find((source) => source.matches(url)) ?? null;
+
+// Check that a URL points to a video from a supported source
+export async function validateVideoUrl(url: string): Promise<ValidationResult> {
+  const source = getVideoSource(url);
+  if (!source) {
+    return {isValid: false, error: 'unsupportedUrl'};
+  }
+  return source.validate(url);
+}
+
+/**
+ * Upload a video file from the user's device so the model can watch it.
+ *
+ * @param file - The video file.
+ * @returns The URI to generate content from.
+ */
+export async function uploadVideoFile(file: File): Promise<string> {
+  const provider = getModelProvider();
+  if (!provider.uploadFile) {
+    throw new Error(
+      `The ${provider.name} model provider does not support video uploads.`,
+    );
+  }
+
+  const mimeType =
+    file.type || VIDEO_MIME_TYPES[getExtension(`file:///${file.name}`)];
+  if (!mimeType?.startsWith('video/')) {
+    throw new Error('The selected file is not a supported video.');
+  }
+
+  const uploaded = await provider.uploadFile(file, mimeType, file.name);
+  uploadedVideos.set(uploaded.uri, {
+    name: file.name,
+    mimeType: uploaded.mimeType,
+    playbackUrl: URL.createObjectURL(file),
+  });
+  return uploaded.uri;
+}
@@ -4,6 +4,9 @@
 */
 /* tslint:disable */
 
+import {parseTimestamp} from '@/lib/timestamps';
+import {VideoSegment} from '@/lib/types';
+
 // Function to extract YouTube video ID
 export const getYouTubeVideoId = (url: string): string | null => {
   try {
@@ -46,24 +49,43 @@ export const getYouTubeVideoId = (url: string): string | null => {
   return null;
 };
 
-// Helper function to validate a YouTube video URL
-export async function validateYoutubeUrl(
-  url: string,
-): Promise<{isValid: boolean; error?: string}> {
-  if (getYouTubeVideoId(url)) {
-    return {isValid: true};
+// Helper function to read the clip a YouTube URL points to, from its
+// `t=`/`start=` and `end=` parameters (e.g. a "share at current time" link)
+export function getYouTubeSegment(url: string): VideoSegment {
+  try {
+    const parsedUrl = new URL(url);
+    const hashParams = new URLSearchParams(parsedUrl.hash.substring(1));
+    const getTime = (name: string) => {
+      const value =
+        parsedUrl.searchParams.get(name) ?? hashParams.get(name) ?? '';
+      return parseTimestamp(value) ?? undefined;
+    };
+    return {start: getTime('t') ?? getTime('start'), end: getTime('end')};
+  } catch {
+    return {};
   }
-  return {isValid: false, error: 'Invalid YouTube URL'};
 }
 
-// Helper function to extract YouTube video ID and create embed URL
-export function getYoutubeEmbedUrl(url: string): string {
+// Helper function to extract YouTube video ID and create embed URL, cued to
+// a segment of the video if one is given
+export function getYoutubeEmbedUrl(
+  url: string,
+  segment?: VideoSegment,
+): string {
   const regExp = /^.*(youtu.be\/|v\/|u\/\w\/|embed\/|watch\?v=|&v=)([^#&?]*).*/;
   const match = url.match(regExp);
   const videoId = match && match[2].length === 11 ? match[2] : null;
 
   if (videoId) {
-    return `https://www.youtube.com/embed/${videoId}`;
+    const params = new URLSearchParams();
+    if (segment?.start) {
+      params.set('start', String(Math.floor(segment.start)));
+    }
+    if (segment?.end !== undefined) {
+      params.set('end', String(Math.ceil(segment.end)));
+    }
+    const query = params.toString();
+    return `https://www.youtube.com/embed/${videoId}${query ? `?${query}` : ''}`;
   }
 
   // This fallback is unlikely to be hit if validation is working
@@ -74,6 +96,14 @@ export function getYoutubeEmbedUrl(url: string): string {
   return url;
 }
 
+// Helper function to get the thumbnail image URL of a YouTube video
+export function getYouTubeThumbnailUrl(url: string): string {
+  const regExp = /^.*(youtu.be\/|v\/|u\/\w\/|embed\/|watch\?v=|&v=)([^#&?]*).*/;
+  const match = url.match(regExp);
+  const videoId = match && match[2].length === 11 ? match[2] : null;
+  return videoId ? `https://img.youtube.com/vi/${videoId}/mqdefault.jpg` : '';
+}
+
 export async function getYouTubeVideoTitle(url: string) {
   const oEmbedUrl = `https://www.youtube.com/oembed?url=${encodeURIComponent(url)}&format=json`;
 
@@ -0,0 +1,297 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+// Generate apps for a list of videos without the UI, writing them in the
+// format of data/examples.json. See `npm run generate-examples -- --help`.
+
+import {existsSync} from 'node:fs';
+import {readFile, rename, writeFile} from 'node:fs/promises';
+import {basename} from 'node:path';
+import {parseArgs} from 'node:util';
+import {DEFAULT_GENERATION_SETTINGS} from '@/lib/generationSettings';
+import {runPipeline} from '@/lib/pipeline';
+import {BUILT_IN_TEMPLATES, DEFAULT_TEMPLATE_ID} from '@/lib/promptTemplates';
+import {createProviderFromEnv, setModelProvider} from '@/lib/providers';
+import {ReplayFixtureFile, createReplayProvider} from '@/lib/providers/replay';
+import {createTranscriptUrl, detectTranscriptFormat} from '@/lib/transcripts';
+import {Example} from '@/lib/types';
+import {getVideoSource} from '@/lib/videoSources';
+
+const DEFAULT_OUT_PATH = 'examples.generated.json';
+
+const USAGE = `Usage: npm run generate-examples -- [options] <input>...
+
+Each input is a video URL, a text file with one URL per line, a CSV file
+with "url" and "title" columns, or an .srt or .vtt subtitle file to generate
+from in place of a video. Apps already in the output file are skipped,
+so an interrupted run can be resumed by running it again.
+
+Options:
+  -o, --out <file>          Where to write the apps (default: ${DEFAULT_OUT_PATH})
+  -c, --concurrency <n>     How many videos to generate at once (default: 2)
+  --provider <name>         gemini, openai or replay (default: $MODEL_PROVIDER or gemini)
+  --fixtures <file>         Fixtures for the replay provider (default: data/fixtures/replay.json)
+  --template <id>           Built-in prompt template: ${BUILT_IN_TEMPLATES.map(({id}) => id).join(', ')}
+  --spec-model <name>       Model for the spec (default: ${DEFAULT_GENERATION_SETTINGS.spec.modelName})
+  --code-model <name>       Model for the code (default: ${DEFAULT_GENERATION_SETTINGS.code.modelName})
+  --language <name>         Language to write the specs and apps in (default: the template's)
+  -h, --help                Show this message`;
+
+// A video to generate an app for, with a title if the input gave one
+interface Job {
+  url: string;
+  title?: string;
+}
+
+// Split a CSV line into fields, allowing quoted fields with commas and
+// doubled quotes
+const parseCsvLine = (line: string): string[] => {
+  const fields: string[] = [];
+  let field = '';
+  let isQuoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (isQuoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        isQuoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      isQuoted = true;
+    } else if (char === ',') {
+      fields.push(field.trim());
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  fields.push(field.trim());
+  return fields;
+};
+
+const parseCsv = (text: string): Job[] => {
+  const rows = text
+    .split(/\r?\n/)
+    .filter((line) => line.trim())
+    .map(parseCsvLine);
+
+  // Without a header row, the first column is the URL and the second the title
+  const header = rows[0]?.map((field) => field.toLowerCase()) ?? [];
+  const hasHeader = header.includes('url');
+  const urlColumn = hasHeader ? header.indexOf('url') : 0;
+  const titleColumn = hasHeader ? header.indexOf('title') : 1;
+
+  return rows.slice(hasHeader ? 1 : 0).map((row) => ({
+    url: row[urlColumn],
+    title: row[titleColumn] || undefined,
+  }));
+};
+
+const readJobs = async (input: string): Promise<Job[]> => {
+  if (/^https?:\/\//.test(input)) {
+    return [{url: input}];
+  }
+
+  const text = await readFile(input, 'utf8');
+  if (input.toLowerCase().endsWith('.csv')) {
+    return parseCsv(text);
+  }
+  if (/\.(srt|vtt)$/i.test(input)) {
+    const title = basename(input).replace(/\.[^.]+$/, '');
+    const format = detectTranscriptFormat(text, input);
+    return [{url: createTranscriptUrl({title, format, text}), title}];
+  }
+  return text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith('#'))
+    .map((url) => ({url}));
+};
+
+const readExistingExamples = async (path: string): Promise<Example[]> => {
+  if (!existsSync(path)) {
+    return [];
+  }
+  const examples = JSON.parse(await readFile(path, 'utf8'));
+  if (!Array.isArray(examples)) {
+    throw new Error(`${path} does not contain a list of examples.`);
+  }
+  return examples;
+};
+
+const setUpProvider = async (name: string, fixturesPath: string) => {
+  if (name === 'replay') {
+    const file: ReplayFixtureFile = JSON.parse(
+      await readFile(fixturesPath, 'utf8'),
+    );
+    setModelProvider(
+      createReplayProvider({fixtures: file.fixtures, streamChunkDelayMs: 0}),
+    );
+  } else if (name === 'gemini' || name === 'openai') {
+    process.env.MODEL_PROVIDER = name;
+    setModelProvider(createProviderFromEnv());
+  } else {
+    throw new Error(`Unknown provider: ${name}`);
+  }
+};
+
+async function main() {
+  const {values, positionals} = parseArgs({
+    allowPositionals: true,
+    options: {
+      out: {type: 'string', short: 'o', default: DEFAULT_OUT_PATH},
+      concurrency: {type: 'string', short: 'c', default: '2'},
+      provider: {
+        type: 'string',
+        default: process.env.MODEL_PROVIDER || 'gemini',
+      },
+      fixtures: {type: 'string', default: 'data/fixtures/replay.json'},
+      template: {type: 'string', default: DEFAULT_TEMPLATE_ID},
+      'spec-model': {type: 'string'},
+      'code-model': {type: 'string'},
+      language: {type: 'string'},
+      help: {type: 'boolean', short: 'h'},
+    },
+  });
+
+  if (values.help || positionals.length === 0) {
+    console.log(USAGE);
+    return;
+  }
+
+  const concurrency = Number(values.concurrency);
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error('--concurrency must be a positive whole number.');
+  }
+
+  const template = BUILT_IN_TEMPLATES.find(({id}) => id === values.template);
+  if (!template) {
+    throw new Error(`Unknown prompt template: ${values.template}`);
+  }
+
+  const {spec, code} = DEFAULT_GENERATION_SETTINGS;
+  const settings = {
+    ...DEFAULT_GENERATION_SETTINGS,
+    spec: {...spec, modelName: values['spec-model'] || spec.modelName},
+    code: {...code, modelName: values['code-model'] || code.modelName},
+    outputLanguage: values.language?.trim() ?? '',
+  };
+
+  await setUpProvider(values.provider, values.fixtures);
+
+  // Each video only once, in the order given
+  const jobs = [
+    ...new Map(
+      (await Promise.all(positionals.map(readJobs)))
+        .flat()
+        .map((job) => [job.url, job]),
+    ).values(),
+  ];
+
+  const outPath = values.out;
+  const existing = await readExistingExamples(outPath);
+  const results = new Map(existing.map((example) => [example.url, example]));
+  const pending = jobs.filter((job) => !results.has(job.url));
+
+  console.log(
+    `${jobs.length} videos, ${jobs.length - pending.length} already done, generating ${pending.length}.`,
+  );
+
+  // Write the results in input order after each app, so that progress
+  // survives an interruption. Writes are queued so they never overlap.
+  let writing = Promise.resolve();
+  const saveResults = () => {
+    const inputUrls = new Set(jobs.map((job) => job.url));
+    const examples = [
+      ...jobs.flatMap((job) => results.get(job.url) ?? []),
+      ...existing.filter((example) => !inputUrls.has(example.url)),
+    ];
+    writing = writing.then(async () => {
+      await writeFile(`${outPath}.tmp`, JSON.stringify(examples, null, 2));
+      await rename(`${outPath}.tmp`, outPath);
+    });
+    return writing;
+  };
+
+  let finished = 0;
+  const failures: string[] = [];
+
+  const runJob = async (job: Job) => {
+    const source = getVideoSource(job.url);
+    // Transcripts are reported by title rather than their whole data URL
+    const name = source?.kind === 'transcript' ? job.title : job.url;
+    const log = (message: string) =>
+      console.log(`[${finished + 1}/${pending.length}] ${name}: ${message}`);
+
+    try {
+      if (!source) {
+        throw new Error('Not a YouTube link or a direct link to a video file.');
+      }
+
+      const result = await runPipeline({
+        videoUrl: job.url,
+        videoSegment: source.getSegment(job.url),
+        template,
+        settings,
+        onStageChange: (stage) => log(`generating ${stage}...`),
+        onRetry: (attempt, maxRetries, error) =>
+          log(
+            `retrying (${attempt}/${maxRetries}): ${error instanceof Error ? error.message : error}`,
+          ),
+        onRepair: (attempt, maxAttempts) =>
+          log(`repairing the spec (${attempt}/${maxAttempts})...`),
+      });
+
+      const title =
+        job.title ||
+        (await source.getTitle(job.url).catch(() => job.url)) ||
+        job.url;
+      results.set(job.url, {
+        title,
+        url: job.url,
+        spec: result.spec,
+        code: result.code,
+      });
+      await saveResults();
+      log('done');
+    } catch (error) {
+      failures.push(name ?? job.url);
+      log(`failed: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      finished++;
+    }
+  };
+
+  const queue = [...pending];
+  await Promise.all(
+    Array.from({length: Math.min(concurrency, queue.length)}, async () => {
+      while (queue.length > 0) {
+        await runJob(queue.shift()!);
+      }
+    }),
+  );
+
+  console.log(
+    `Wrote ${results.size} apps to ${outPath}.` +
+      (failures.length
+        ? ` ${failures.length} failed and will be retried on the next run.`
+        : ''),
+  );
+  if (failures.length > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});